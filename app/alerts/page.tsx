@@ -0,0 +1,139 @@
+"use client";
+
+import Link from "next/link";
+import { useEffect, useState } from "react";
+import SessionGate, { useStaff } from "../../components/SessionGate";
+import {
+  AlertThresholds,
+  alertThresholdFields,
+  defaultAlertThresholds,
+  MAJOR_PERCENTILE_LINES
+} from "../../lib/alerts";
+import { errorMessage, requestJson } from "../../lib/apiClient";
+import { hasPermission } from "../../lib/permissions";
+
+type ThresholdForm = Record<keyof AlertThresholds, string>;
+
+function toForm(thresholds: AlertThresholds) {
+  return Object.fromEntries(
+    alertThresholdFields.map((field) => [field.key, String(thresholds[field.key])])
+  ) as ThresholdForm;
+}
+
+function AlertSettingsPage() {
+  const staff = useStaff();
+  const canManage = hasPermission(staff?.role, "manageAlerts");
+  const [form, setForm] = useState<ThresholdForm>(toForm(defaultAlertThresholds));
+  const [message, setMessage] = useState<{ text: string; type: "error" | "success" } | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    requestJson<{ thresholds: AlertThresholds }>("/api/alert-thresholds")
+      .then(({ thresholds }) => setForm(toForm(thresholds)))
+      .catch((error) =>
+        setMessage({ text: errorMessage(error, "알림 기준을 불러오지 못했습니다."), type: "error" })
+      );
+  }, []);
+
+  const handleSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setIsSaving(true);
+    try {
+      const { thresholds } = await requestJson<{ thresholds: AlertThresholds }>(
+        "/api/alert-thresholds",
+        { method: "PUT", body: form }
+      );
+      setForm(toForm(thresholds));
+      setMessage({ text: "알림 기준을 저장했습니다.", type: "success" });
+    } catch (error) {
+      setMessage({ text: errorMessage(error, "저장 중 오류가 발생했습니다."), type: "error" });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="mx-auto min-h-screen max-w-6xl px-6 pb-20 pt-10">
+      <header className="flex flex-wrap items-start justify-between gap-6">
+        <div>
+          <span className="text-xs uppercase tracking-[0.3em] text-accent2">Growth Tracker</span>
+          <h1 className="mt-2 text-4xl font-semibold text-ink">성장 알림 기준</h1>
+          <p className="mt-2 max-w-xl text-sm text-muted">
+            방문 기록을 저장할 때마다 아래 기준으로 성장 알림을 확인합니다. 주요 백분위선은{" "}
+            {MAJOR_PERCENTILE_LINES.join(", ")} 백분위입니다.
+          </p>
+        </div>
+        <Link
+          href="/"
+          className="no-print rounded-full border border-outline px-5 py-2 text-sm font-medium text-ink transition hover:-translate-y-0.5"
+        >
+          방문 입력
+        </Link>
+      </header>
+
+      <main className="mt-10 grid gap-6">
+        <section className="card frost animate-[rise_0.7s_ease] p-6">
+          <form onSubmit={handleSubmit} className="grid gap-4 sm:grid-cols-2">
+            {alertThresholdFields.map((field) => (
+              <label key={field.key} className="text-sm text-muted">
+                {field.label} ({field.unit})
+                <input
+                  type="number"
+                  min={field.min}
+                  max={field.max}
+                  step={field.step}
+                  value={form[field.key]}
+                  onChange={(event) =>
+                    setForm((prev) => ({ ...prev, [field.key]: event.target.value }))
+                  }
+                  disabled={!canManage}
+                  required
+                  className="mt-2 w-full rounded-xl border border-outline bg-white/80 px-3 py-2 text-base text-ink outline-none focus:border-accent2 disabled:opacity-70"
+                />
+              </label>
+            ))}
+            <div className="flex flex-wrap items-center gap-3 sm:col-span-2">
+              {canManage ? (
+                <>
+                  <button
+                    type="submit"
+                    disabled={isSaving}
+                    className="rounded-full bg-accent px-6 py-2 text-sm font-semibold text-ink shadow-glow transition hover:-translate-y-0.5 disabled:cursor-not-allowed disabled:opacity-70"
+                  >
+                    {isSaving ? "저장 중..." : "저장"}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setForm(toForm(defaultAlertThresholds))}
+                    className="rounded-full border border-outline px-5 py-2 text-sm text-ink transition hover:-translate-y-0.5"
+                  >
+                    기본값
+                  </button>
+                </>
+              ) : (
+                <p className="text-sm text-muted">의사와 관리자만 알림 기준을 변경할 수 있습니다.</p>
+              )}
+            </div>
+          </form>
+          {message && (
+            <div
+              className={`mt-4 rounded-2xl px-4 py-3 text-sm ${
+                message.type === "error" ? "bg-red-100 text-red-700" : "bg-emerald-100 text-emerald-800"
+              }`}
+            >
+              {message.text}
+            </div>
+          )}
+        </section>
+      </main>
+    </div>
+  );
+}
+
+export default function Page() {
+  return (
+    <SessionGate>
+      <AlertSettingsPage />
+    </SessionGate>
+  );
+}
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAlertThresholds, saveAlertThresholds } from "../../../lib/alertStore";
+import { errorResponse, serverErrorResponse } from "../../../lib/apiResponse";
+import { requirePermission, requireStaff } from "../../../lib/serverAuth";
+import { validateAlertThresholds } from "../../../lib/validation";
+
+export const runtime = "nodejs";
+
+export async function GET(request: NextRequest) {
+  const session = await requireStaff(request);
+  if (session instanceof NextResponse) {
+    return session;
+  }
+  const { supabase } = session;
+
+  try {
+    return NextResponse.json({ thresholds: await getAlertThresholds(supabase) });
+  } catch (error) {
+    return serverErrorResponse(error);
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  const session = await requireStaff(request);
+  if (session instanceof NextResponse) {
+    return session;
+  }
+  const { supabase } = session;
+
+  const denied = requirePermission(session, "manageAlerts", "알림 기준은 의사만 변경할 수 있습니다.");
+  if (denied) {
+    return denied;
+  }
+
+  const input = validateAlertThresholds(await request.json().catch(() => null));
+  if (input.error !== undefined) {
+    return errorResponse(input.error, 400);
+  }
+
+  try {
+    const thresholds = await saveAlertThresholds(supabase, session.clinicId, input.value);
+    return NextResponse.json({ thresholds });
+  } catch (error) {
+    return serverErrorResponse(error);
+  }
+}
@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from "next/server";
+import { serverErrorResponse } from "../../../../lib/apiResponse";
+import { deleteBoneAge } from "../../../../lib/patientStore";
+import { requirePermission, requireStaff } from "../../../../lib/serverAuth";
+
+export const runtime = "nodejs";
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  const session = await requireStaff(request);
+  if (session instanceof NextResponse) {
+    return session;
+  }
+  const { supabase } = session;
+
+  const denied = requirePermission(session, "deleteRecords", "골연령 기록 삭제 권한이 없습니다.");
+  if (denied) {
+    return denied;
+  }
+
+  const { id } = await params;
+  try {
+    await deleteBoneAge(supabase, id);
+    return NextResponse.json({ id });
+  } catch (error) {
+    return serverErrorResponse(error);
+  }
+}
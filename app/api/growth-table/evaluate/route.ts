@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  DEFAULT_GROWTH_REFERENCE,
+  evaluateGrowth,
+  findPercentileBand,
+  isGrowthReference,
+  tableReferenceFor
+} from "../../../../lib/growth";
+import { isGrowthMetric, loadGrowthTable } from "../../../../lib/growthTables";
+
+export const runtime = "nodejs";
+
+function readNumberParam(searchParams: URLSearchParams, name: string) {
+  const raw = searchParams.get(name)?.trim();
+  return raw ? Number(raw) : Number.NaN;
+}
+
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const metric = searchParams.get("metric");
+  const reference = searchParams.get("reference") ?? DEFAULT_GROWTH_REFERENCE;
+  const sex = searchParams.get("sex");
+  const value = readNumberParam(searchParams, "value");
+
+  if (!isGrowthMetric(metric)) {
+    return NextResponse.json({ error: "Invalid metric" }, { status: 400 });
+  }
+  if (!isGrowthReference(reference)) {
+    return NextResponse.json({ error: "Invalid reference" }, { status: 400 });
+  }
+  if (sex !== "1" && sex !== "2") {
+    return NextResponse.json({ error: "Invalid sex (1 = male, 2 = female)" }, { status: 400 });
+  }
+  if (!(value > 0)) {
+    return NextResponse.json({ error: "Invalid value" }, { status: 400 });
+  }
+
+  const table = await loadGrowthTable(metric, tableReferenceFor(metric, reference));
+  if (!table) {
+    return NextResponse.json(
+      { error: "Growth table not available for this reference" },
+      { status: 404 }
+    );
+  }
+
+  // Weight-for-height is indexed by height in cm instead of age.
+  const xParam = table.axis === "height" ? "height" : "ageMonths";
+  const x = readNumberParam(searchParams, xParam);
+  if (!(x >= 0)) {
+    return NextResponse.json({ error: `Invalid ${xParam}` }, { status: 400 });
+  }
+
+  const evaluation = evaluateGrowth(table, sex, x, value);
+  const band = findPercentileBand(table, sex, x, value);
+  if (!evaluation || !band) {
+    return NextResponse.json({ error: `${xParam} is outside the reference range` }, { status: 400 });
+  }
+
+  return NextResponse.json({
+    metric,
+    reference: table.reference,
+    sex,
+    [xParam]: x,
+    value,
+    zScore: evaluation.zScore,
+    percentile: evaluation.percentile,
+    band,
+    m: evaluation.lms.M
+  });
+}
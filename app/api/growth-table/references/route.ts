@@ -0,0 +1,8 @@
+import { NextResponse } from "next/server";
+import { listAvailableGrowthReferences } from "../../../../lib/growthTables";
+
+export const runtime = "nodejs";
+
+export async function GET() {
+  return NextResponse.json({ references: await listAvailableGrowthReferences() });
+}
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  errorResponse,
+  hashKeyMissingResponse,
+  serverErrorResponse
+} from "../../../../lib/apiResponse";
+import { analyzeImport } from "../../../../lib/importStore";
+import { isResidentHashConfigured } from "../../../../lib/residentHash";
+import { requireStaff } from "../../../../lib/serverAuth";
+import { MAX_IMPORT_ROWS } from "../../../../lib/validation";
+
+export const runtime = "nodejs";
+
+export async function POST(request: NextRequest) {
+  const session = await requireStaff(request);
+  if (session instanceof NextResponse) {
+    return session;
+  }
+  const { supabase } = session;
+
+  if (!isResidentHashConfigured) {
+    return hashKeyMissingResponse();
+  }
+
+  const body = await request.json().catch(() => null);
+  const rows: unknown = body?.rows;
+  if (!Array.isArray(rows) || !rows.length) {
+    return errorResponse("가져올 행이 없습니다.", 400);
+  }
+  if (rows.length > MAX_IMPORT_ROWS) {
+    return errorResponse(`한 번에 ${MAX_IMPORT_ROWS}행까지 가져올 수 있습니다.`, 400);
+  }
+
+  try {
+    const { rows: preview } = await analyzeImport(supabase, rows);
+    return NextResponse.json({ rows: preview });
+  } catch (error) {
+    return serverErrorResponse(error);
+  }
+}
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from "next/server";
+import { errorResponse, serverErrorResponse } from "../../../../../lib/apiResponse";
+import { getPatientRow, insertBoneAge, listBoneAges } from "../../../../../lib/patientStore";
+import { requireStaff } from "../../../../../lib/serverAuth";
+import { validateBoneAgeInput } from "../../../../../lib/validation";
+
+export const runtime = "nodejs";
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const session = await requireStaff(request);
+  if (session instanceof NextResponse) {
+    return session;
+  }
+  const { supabase } = session;
+
+  const { id } = await params;
+  try {
+    return NextResponse.json({ boneAges: await listBoneAges(supabase, id) });
+  } catch (error) {
+    return serverErrorResponse(error);
+  }
+}
+
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  const session = await requireStaff(request);
+  if (session instanceof NextResponse) {
+    return session;
+  }
+  const { supabase } = session;
+
+  const input = validateBoneAgeInput(await request.json().catch(() => null));
+  if (input.error !== undefined) {
+    return errorResponse(input.error, 400);
+  }
+
+  const { id } = await params;
+  try {
+    if (!(await getPatientRow(supabase, id))) {
+      return errorResponse("환자를 찾을 수 없습니다.", 404);
+    }
+    const boneAge = await insertBoneAge(supabase, id, input.value);
+    return NextResponse.json({ boneAge }, { status: 201 });
+  } catch (error) {
+    return serverErrorResponse(error);
+  }
+}
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from "next/server";
+import { errorResponse, serverErrorResponse } from "../../../../../lib/apiResponse";
+import { getPatientRow, listPatientHistory } from "../../../../../lib/patientStore";
+import { mapPatientRow } from "../../../../../lib/records";
+import { requireStaff } from "../../../../../lib/serverAuth";
+
+export const runtime = "nodejs";
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const session = await requireStaff(request);
+  if (session instanceof NextResponse) {
+    return session;
+  }
+  const { supabase } = session;
+
+  const { id } = await params;
+  try {
+    const row = await getPatientRow(supabase, id);
+    if (!row) {
+      return errorResponse("환자를 찾을 수 없습니다.", 404);
+    }
+    return NextResponse.json({
+      patient: mapPatientRow(row),
+      history: await listPatientHistory(supabase, id)
+    });
+  } catch (error) {
+    return serverErrorResponse(error);
+  }
+}
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from "next/server";
+import { errorResponse, serverErrorResponse } from "../../../../../lib/apiResponse";
+import { tableReferenceFor } from "../../../../../lib/growth";
+import { loadGrowthTable } from "../../../../../lib/growthTables";
+import { getPatientRow, listTreatments, listVisits } from "../../../../../lib/patientStore";
+import { mapPatientRow } from "../../../../../lib/records";
+import { buildGrowthReport } from "../../../../../lib/report";
+import { requireStaff } from "../../../../../lib/serverAuth";
+import { validateReportInput } from "../../../../../lib/validation";
+
+export const runtime = "nodejs";
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  const session = await requireStaff(request);
+  if (session instanceof NextResponse) {
+    return session;
+  }
+  const { supabase, profile } = session;
+
+  const input = validateReportInput(await request.json().catch(() => null));
+  if (input.error !== undefined) {
+    return errorResponse(input.error, 400);
+  }
+
+  const { id } = await params;
+  try {
+    const row = await getPatientRow(supabase, id);
+    if (!row) {
+      return errorResponse("환자를 찾을 수 없습니다.", 404);
+    }
+    const patient = mapPatientRow(row);
+    const [visits, treatments, height, weight, bmi] = await Promise.all([
+      listVisits(supabase, id),
+      listTreatments(supabase, id),
+      loadGrowthTable("height", patient.growthReference),
+      loadGrowthTable("weight", patient.growthReference),
+      loadGrowthTable("bmi", tableReferenceFor("bmi", patient.growthReference))
+    ]);
+
+    const pdf = buildGrowthReport({
+      clinicName: profile.clinicName,
+      authorName: profile.name,
+      patient,
+      visits,
+      treatments,
+      tables: { height, weight, bmi },
+      comment: input.value.comment,
+      issuedAt: new Date()
+    });
+    return new NextResponse(pdf, {
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `inline; filename="growth-report-${id}.pdf"`,
+        "Cache-Control": "no-store"
+      }
+    });
+  } catch (error) {
+    return serverErrorResponse(error);
+  }
+}
@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  errorResponse,
+  hashKeyMissingResponse,
+  serverErrorResponse
+} from "../../../../lib/apiResponse";
+import { isGrowthReferenceAvailable } from "../../../../lib/growthTables";
+import { deletePatient, getPatientRow, updatePatient } from "../../../../lib/patientStore";
+import { mapPatientRow } from "../../../../lib/records";
+import { isResidentHashConfigured } from "../../../../lib/residentHash";
+import { requirePermission, requireStaff } from "../../../../lib/serverAuth";
+import { validatePatientChanges } from "../../../../lib/validation";
+
+export const runtime = "nodejs";
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const session = await requireStaff(request);
+  if (session instanceof NextResponse) {
+    return session;
+  }
+  const { supabase } = session;
+
+  const { id } = await params;
+  try {
+    const row = await getPatientRow(supabase, id);
+    if (!row) {
+      return errorResponse("환자를 찾을 수 없습니다.", 404);
+    }
+    return NextResponse.json({ patient: mapPatientRow(row) });
+  } catch (error) {
+    return serverErrorResponse(error);
+  }
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  const session = await requireStaff(request);
+  if (session instanceof NextResponse) {
+    return session;
+  }
+  const { supabase } = session;
+
+  const input = validatePatientChanges(await request.json().catch(() => null));
+  if (input.error !== undefined) {
+    return errorResponse(input.error, 400);
+  }
+  if (input.value.resident && !isResidentHashConfigured) {
+    return hashKeyMissingResponse();
+  }
+
+  const { id } = await params;
+  try {
+    const row = await getPatientRow(supabase, id);
+    if (!row) {
+      return errorResponse("환자를 찾을 수 없습니다.", 404);
+    }
+    const reference = input.value.growthReference;
+    if (reference && reference !== row.growth_reference) {
+      const denied = requirePermission(
+        session,
+        "setGrowthReference",
+        "성장 기준 변경 권한이 없습니다."
+      );
+      if (denied) {
+        return denied;
+      }
+      if (!(await isGrowthReferenceAvailable(reference))) {
+        return errorResponse("설치되지 않은 성장 기준입니다.", 400);
+      }
+    }
+    const updated = await updatePatient(supabase, row, input.value);
+    return NextResponse.json({ patient: mapPatientRow(updated) });
+  } catch (error) {
+    return serverErrorResponse(error);
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  const session = await requireStaff(request);
+  if (session instanceof NextResponse) {
+    return session;
+  }
+  const { supabase } = session;
+
+  const denied = requirePermission(session, "deleteRecords", "환자 삭제 권한이 없습니다.");
+  if (denied) {
+    return denied;
+  }
+
+  const { id } = await params;
+  try {
+    if (!(await getPatientRow(supabase, id))) {
+      return errorResponse("환자를 찾을 수 없습니다.", 404);
+    }
+    await deletePatient(supabase, id);
+    return NextResponse.json({ id });
+  } catch (error) {
+    return serverErrorResponse(error);
+  }
+}
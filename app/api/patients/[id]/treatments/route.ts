@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from "next/server";
+import { errorResponse, serverErrorResponse } from "../../../../../lib/apiResponse";
+import { getPatientRow, insertTreatment, listTreatments } from "../../../../../lib/patientStore";
+import { requirePermission, requireStaff } from "../../../../../lib/serverAuth";
+import { validateTreatmentInput } from "../../../../../lib/validation";
+
+export const runtime = "nodejs";
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const session = await requireStaff(request);
+  if (session instanceof NextResponse) {
+    return session;
+  }
+  const { supabase } = session;
+
+  const { id } = await params;
+  try {
+    return NextResponse.json({ treatments: await listTreatments(supabase, id) });
+  } catch (error) {
+    return serverErrorResponse(error);
+  }
+}
+
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  const session = await requireStaff(request);
+  if (session instanceof NextResponse) {
+    return session;
+  }
+  const { supabase } = session;
+
+  const denied = requirePermission(session, "setInjections", "투여 요법은 의사만 기록할 수 있습니다.");
+  if (denied) {
+    return denied;
+  }
+
+  const input = validateTreatmentInput(await request.json().catch(() => null));
+  if (input.error !== undefined) {
+    return errorResponse(input.error, 400);
+  }
+
+  const { id } = await params;
+  try {
+    if (!(await getPatientRow(supabase, id))) {
+      return errorResponse("환자를 찾을 수 없습니다.", 404);
+    }
+    const treatment = await insertTreatment(supabase, id, input.value);
+    return NextResponse.json({ treatment }, { status: 201 });
+  } catch (error) {
+    return serverErrorResponse(error);
+  }
+}
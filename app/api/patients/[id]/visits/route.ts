@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from "next/server";
+import { evaluateRecordAlerts, refreshVisitAlerts } from "../../../../../lib/alertStore";
+import { errorResponse, serverErrorResponse } from "../../../../../lib/apiResponse";
+import {
+  applyVisitTreatment,
+  getPatientRow,
+  insertVisit,
+  listVisits
+} from "../../../../../lib/patientStore";
+import { requirePermission, requireStaff } from "../../../../../lib/serverAuth";
+import { validateVisitInput } from "../../../../../lib/validation";
+
+export const runtime = "nodejs";
+
+const injectionDeniedMessage = "주사 여부는 의사만 기록할 수 있습니다.";
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const session = await requireStaff(request);
+  if (session instanceof NextResponse) {
+    return session;
+  }
+  const { supabase } = session;
+
+  const { id } = await params;
+  try {
+    const row = await getPatientRow(supabase, id);
+    if (!row) {
+      return errorResponse("환자를 찾을 수 없습니다.", 404);
+    }
+    return NextResponse.json({ visits: await listVisits(supabase, row.id) });
+  } catch (error) {
+    return serverErrorResponse(error);
+  }
+}
+
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  const session = await requireStaff(request);
+  if (session instanceof NextResponse) {
+    return session;
+  }
+  const { supabase } = session;
+
+  const body = await request.json().catch(() => null);
+  const { id } = await params;
+  try {
+    const row = await getPatientRow(supabase, id);
+    if (!row) {
+      return errorResponse("환자를 찾을 수 없습니다.", 404);
+    }
+    const input = validateVisitInput(body, row.birth_date);
+    if (input.error !== undefined) {
+      return errorResponse(input.error, 400);
+    }
+    const record = await applyVisitTreatment(supabase, row.id, input.value);
+    if (record.error !== undefined) {
+      return errorResponse(record.error, 400);
+    }
+    if (
+      record.value.growthInjection ||
+      record.value.suppressionInjection ||
+      record.value.treatmentId
+    ) {
+      const denied = requirePermission(session, "setInjections", injectionDeniedMessage);
+      if (denied) {
+        return denied;
+      }
+    }
+    const alerts = await evaluateRecordAlerts(supabase, row, record.value, null);
+    const visit = await insertVisit(supabase, row.id, record.value, alerts);
+    await refreshVisitAlerts(supabase, row, visit.date);
+    return NextResponse.json({ visit }, { status: 201 });
+  } catch (error) {
+    return serverErrorResponse(error);
+  }
+}
@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  errorResponse,
+  hashKeyMissingResponse,
+  serverErrorResponse
+} from "../../../lib/apiResponse";
+import { parseDateInput } from "../../../lib/format";
+import { isGrowthReferenceAvailable } from "../../../lib/growthTables";
+import { searchPatients, upsertPatient } from "../../../lib/patientStore";
+import { hasPermission } from "../../../lib/permissions";
+import { mapPatientRow } from "../../../lib/records";
+import { isResidentHashConfigured } from "../../../lib/residentHash";
+import { requireStaff } from "../../../lib/serverAuth";
+import { validatePatientInput } from "../../../lib/validation";
+
+export const runtime = "nodejs";
+
+function sanitizeSearchTerm(value: string) {
+  return value.replace(/[,()%*\\]/g, "").trim();
+}
+
+export async function GET(request: NextRequest) {
+  const session = await requireStaff(request);
+  if (session instanceof NextResponse) {
+    return session;
+  }
+  const { supabase } = session;
+
+  const { searchParams } = new URL(request.url);
+  const term = sanitizeSearchTerm(searchParams.get("q") ?? "");
+  const birthDate = searchParams.get("birthDate") || null;
+
+  if (birthDate && !parseDateInput(birthDate)) {
+    return errorResponse("생년월일을 확인해주세요.", 400);
+  }
+  if (!term && !birthDate) {
+    return errorResponse("이름, 차트번호 또는 생년월일을 입력해주세요.", 400);
+  }
+
+  try {
+    const patients = await searchPatients(supabase, term, birthDate);
+    return NextResponse.json({ patients });
+  } catch (error) {
+    return serverErrorResponse(error);
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const session = await requireStaff(request);
+  if (session instanceof NextResponse) {
+    return session;
+  }
+  const { supabase } = session;
+
+  if (!isResidentHashConfigured) {
+    return hashKeyMissingResponse();
+  }
+
+  const input = validatePatientInput(await request.json().catch(() => null), {
+    requireResidentId: true
+  });
+  if (input.error !== undefined) {
+    return errorResponse(input.error, 400);
+  }
+  if (!input.value.resident) {
+    return errorResponse("주민등록번호를 정확히 입력해주세요.", 400);
+  }
+
+  try {
+    const reference = input.value.growthReference;
+    if (reference && !(await isGrowthReferenceAvailable(reference))) {
+      return errorResponse("설치되지 않은 성장 기준입니다.", 400);
+    }
+    const { row, matchType, created, trashed, referenceDenied } = await upsertPatient(
+      supabase,
+      input.value,
+      input.value.resident,
+      hasPermission(session.profile.role, "setGrowthReference")
+    );
+    if (referenceDenied) {
+      return errorResponse("성장 기준 변경 권한이 없습니다.", 403);
+    }
+    if (trashed) {
+      return errorResponse("휴지통에 있는 환자입니다. 관리자에게 복원을 요청해주세요.", 409);
+    }
+    return NextResponse.json(
+      { patient: mapPatientRow(row), matchType },
+      { status: created ? 201 : 200 }
+    );
+  } catch (error) {
+    return serverErrorResponse(error);
+  }
+}
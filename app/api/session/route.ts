@@ -0,0 +1,12 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireStaff } from "../../../lib/serverAuth";
+
+export const runtime = "nodejs";
+
+export async function GET(request: NextRequest) {
+  const session = await requireStaff(request);
+  if (session instanceof NextResponse) {
+    return session;
+  }
+  return NextResponse.json({ staff: session.profile });
+}
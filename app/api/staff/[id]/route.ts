@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from "next/server";
+import { errorResponse, serverErrorResponse } from "../../../../lib/apiResponse";
+import { isStaffRole } from "../../../../lib/permissions";
+import { requirePermission, requireStaff } from "../../../../lib/serverAuth";
+import { removeStaff, updateStaffRole } from "../../../../lib/staffStore";
+
+export const runtime = "nodejs";
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+const manageDeniedMessage = "직원 관리 권한이 없습니다.";
+
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  const session = await requireStaff(request);
+  if (session instanceof NextResponse) {
+    return session;
+  }
+  const { supabase } = session;
+
+  const denied = requirePermission(session, "manageStaff", manageDeniedMessage);
+  if (denied) {
+    return denied;
+  }
+
+  const body = await request.json().catch(() => null);
+  const role = body?.role;
+  if (!isStaffRole(role)) {
+    return errorResponse("역할을 확인해주세요.", 400);
+  }
+
+  const { id } = await params;
+  if (id === session.userId) {
+    return errorResponse("본인 계정의 역할은 변경할 수 없습니다.", 400);
+  }
+
+  try {
+    const member = await updateStaffRole(supabase, id, role);
+    if (!member) {
+      return errorResponse("직원을 찾을 수 없습니다.", 404);
+    }
+    return NextResponse.json({ staff: member });
+  } catch (error) {
+    return serverErrorResponse(error);
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  const session = await requireStaff(request);
+  if (session instanceof NextResponse) {
+    return session;
+  }
+  const { supabase } = session;
+
+  const denied = requirePermission(session, "manageStaff", manageDeniedMessage);
+  if (denied) {
+    return denied;
+  }
+
+  const { id } = await params;
+  if (id === session.userId) {
+    return errorResponse("본인 계정은 삭제할 수 없습니다.", 400);
+  }
+
+  try {
+    if (!(await removeStaff(supabase, id))) {
+      return errorResponse("직원을 찾을 수 없습니다.", 404);
+    }
+    return NextResponse.json({ id });
+  } catch (error) {
+    return serverErrorResponse(error);
+  }
+}
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from "next/server";
+import { errorResponse, serverErrorResponse } from "../../../lib/apiResponse";
+import { requirePermission, requireStaff } from "../../../lib/serverAuth";
+import { inviteStaff, listStaff } from "../../../lib/staffStore";
+import { createServiceSupabase } from "../../../lib/supabaseServer";
+import { validateStaffInvite } from "../../../lib/validation";
+
+export const runtime = "nodejs";
+
+const manageDeniedMessage = "직원 관리 권한이 없습니다.";
+
+export async function GET(request: NextRequest) {
+  const session = await requireStaff(request);
+  if (session instanceof NextResponse) {
+    return session;
+  }
+  const { supabase } = session;
+
+  const denied = requirePermission(session, "manageStaff", manageDeniedMessage);
+  if (denied) {
+    return denied;
+  }
+
+  try {
+    return NextResponse.json({ staff: await listStaff(supabase) });
+  } catch (error) {
+    return serverErrorResponse(error);
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const session = await requireStaff(request);
+  if (session instanceof NextResponse) {
+    return session;
+  }
+
+  const denied = requirePermission(session, "manageStaff", manageDeniedMessage);
+  if (denied) {
+    return denied;
+  }
+
+  const serviceSupabase = createServiceSupabase();
+  if (!serviceSupabase) {
+    return errorResponse("SUPABASE_SERVICE_ROLE_KEY 환경 변수를 설정해주세요.", 503);
+  }
+
+  const input = validateStaffInvite(await request.json().catch(() => null));
+  if (input.error !== undefined) {
+    return errorResponse(input.error, 400);
+  }
+
+  try {
+    const member = await inviteStaff(serviceSupabase, session.clinicId, input.value);
+    return NextResponse.json({ staff: member }, { status: 201 });
+  } catch (error) {
+    return serverErrorResponse(error);
+  }
+}
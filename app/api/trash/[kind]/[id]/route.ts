@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from "next/server";
+import { refreshVisitAlerts } from "../../../../../lib/alertStore";
+import { errorResponse, serverErrorResponse } from "../../../../../lib/apiResponse";
+import { getActiveVisit, getPatientRow } from "../../../../../lib/patientStore";
+import { hasPermission } from "../../../../../lib/permissions";
+import { requirePermission, requireStaff } from "../../../../../lib/serverAuth";
+import {
+  isTrashKind,
+  purgeRecord,
+  restoreRecord,
+  trashRetentionDays
+} from "../../../../../lib/trashStore";
+
+export const runtime = "nodejs";
+
+type RouteParams = { params: Promise<{ kind: string; id: string }> };
+
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  const session = await requireStaff(request);
+  if (session instanceof NextResponse) {
+    return session;
+  }
+  const { supabase } = session;
+
+  const denied = requirePermission(session, "deleteRecords", "기록 복원 권한이 없습니다.");
+  if (denied) {
+    return denied;
+  }
+
+  const { kind, id } = await params;
+  if (!isTrashKind(kind)) {
+    return errorResponse("잘못된 요청입니다.", 404);
+  }
+  try {
+    const undoOnly = !hasPermission(session.profile.role, "manageTrash");
+    const result = await restoreRecord(supabase, kind, id, undoOnly);
+    if (result === "not-found") {
+      return errorResponse("휴지통에서 기록을 찾을 수 없습니다.", 404);
+    }
+    if (result === "undo-expired") {
+      return errorResponse("실행 취소 시간이 지났습니다. 관리자에게 복원을 요청해주세요.", 403);
+    }
+    if (result === "patient-trashed") {
+      return errorResponse("환자가 휴지통에 있습니다. 환자를 먼저 복원해주세요.", 409);
+    }
+    const visit = kind === "visits" ? await getActiveVisit(supabase, id) : null;
+    const row = visit ? await getPatientRow(supabase, visit.patientId) : null;
+    if (visit && row) {
+      await refreshVisitAlerts(supabase, row, visit.date);
+    }
+    return NextResponse.json({ id });
+  } catch (error) {
+    return serverErrorResponse(error);
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  const session = await requireStaff(request);
+  if (session instanceof NextResponse) {
+    return session;
+  }
+  const { supabase } = session;
+
+  const denied = requirePermission(session, "manageTrash", "휴지통은 관리자만 사용할 수 있습니다.");
+  if (denied) {
+    return denied;
+  }
+
+  const { kind, id } = await params;
+  if (!isTrashKind(kind)) {
+    return errorResponse("잘못된 요청입니다.", 404);
+  }
+  try {
+    if (!(await purgeRecord(supabase, kind, id))) {
+      return errorResponse(
+        `삭제 후 ${trashRetentionDays}일이 지난 기록만 영구 삭제할 수 있습니다.`,
+        409
+      );
+    }
+    return NextResponse.json({ id });
+  } catch (error) {
+    return serverErrorResponse(error);
+  }
+}
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from "next/server";
+import { serverErrorResponse } from "../../../lib/apiResponse";
+import { requirePermission, requireStaff } from "../../../lib/serverAuth";
+import { listTrash, purgeExpired, trashRetentionDays } from "../../../lib/trashStore";
+
+export const runtime = "nodejs";
+
+const trashDeniedMessage = "휴지통은 관리자만 사용할 수 있습니다.";
+
+export async function GET(request: NextRequest) {
+  const session = await requireStaff(request);
+  if (session instanceof NextResponse) {
+    return session;
+  }
+  const { supabase } = session;
+
+  const denied = requirePermission(session, "manageTrash", trashDeniedMessage);
+  if (denied) {
+    return denied;
+  }
+
+  try {
+    const { patients, visits } = await listTrash(supabase);
+    return NextResponse.json({ patients, visits, retentionDays: trashRetentionDays });
+  } catch (error) {
+    return serverErrorResponse(error);
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  const session = await requireStaff(request);
+  if (session instanceof NextResponse) {
+    return session;
+  }
+  const { supabase } = session;
+
+  const denied = requirePermission(session, "manageTrash", trashDeniedMessage);
+  if (denied) {
+    return denied;
+  }
+
+  try {
+    return NextResponse.json({ purged: await purgeExpired(supabase) });
+  } catch (error) {
+    return serverErrorResponse(error);
+  }
+}
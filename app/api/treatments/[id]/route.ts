@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from "next/server";
+import { errorResponse, serverErrorResponse } from "../../../../lib/apiResponse";
+import { deleteTreatment, updateTreatment } from "../../../../lib/patientStore";
+import { requirePermission, requireStaff } from "../../../../lib/serverAuth";
+import { validateTreatmentInput } from "../../../../lib/validation";
+
+export const runtime = "nodejs";
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  const session = await requireStaff(request);
+  if (session instanceof NextResponse) {
+    return session;
+  }
+  const { supabase } = session;
+
+  const denied = requirePermission(session, "setInjections", "투여 요법 수정 권한이 없습니다.");
+  if (denied) {
+    return denied;
+  }
+
+  const input = validateTreatmentInput(await request.json().catch(() => null));
+  if (input.error !== undefined) {
+    return errorResponse(input.error, 400);
+  }
+
+  const { id } = await params;
+  try {
+    const treatment = await updateTreatment(supabase, id, input.value);
+    if (!treatment) {
+      return errorResponse("투여 요법을 찾을 수 없습니다.", 404);
+    }
+    return NextResponse.json({ treatment });
+  } catch (error) {
+    return serverErrorResponse(error);
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  const session = await requireStaff(request);
+  if (session instanceof NextResponse) {
+    return session;
+  }
+  const { supabase } = session;
+
+  const denied = requirePermission(session, "deleteRecords", "투여 요법 삭제 권한이 없습니다.");
+  if (denied) {
+    return denied;
+  }
+
+  const { id } = await params;
+  try {
+    await deleteTreatment(supabase, id);
+    return NextResponse.json({ id });
+  } catch (error) {
+    return serverErrorResponse(error);
+  }
+}
@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from "next/server";
+import { evaluateRecordAlerts, refreshVisitAlerts } from "../../../../lib/alertStore";
+import { errorResponse, serverErrorResponse } from "../../../../lib/apiResponse";
+import {
+  applyVisitTreatment,
+  deleteVisit,
+  getActiveVisit,
+  getPatientRow,
+  updateVisit
+} from "../../../../lib/patientStore";
+import { requirePermission, requireStaff } from "../../../../lib/serverAuth";
+import { validateVisitInput } from "../../../../lib/validation";
+
+export const runtime = "nodejs";
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  const session = await requireStaff(request);
+  if (session instanceof NextResponse) {
+    return session;
+  }
+  const { supabase } = session;
+
+  const denied = requirePermission(session, "editVisits", "방문 기록 수정 권한이 없습니다.");
+  if (denied) {
+    return denied;
+  }
+
+  const body = await request.json().catch(() => null);
+  const { id } = await params;
+  try {
+    const existing = await getActiveVisit(supabase, id);
+    const row = existing ? await getPatientRow(supabase, existing.patientId) : null;
+    if (!existing || !row) {
+      return errorResponse("방문 기록을 찾을 수 없습니다.", 404);
+    }
+    const input = validateVisitInput(body, row.birth_date);
+    if (input.error !== undefined) {
+      return errorResponse(input.error, 400);
+    }
+    const record = await applyVisitTreatment(supabase, row.id, input.value);
+    if (record.error !== undefined) {
+      return errorResponse(record.error, 400);
+    }
+    const alerts = await evaluateRecordAlerts(supabase, row, record.value, id);
+    const visit = await updateVisit(supabase, id, record.value, alerts);
+    const from = new Date(existing.date) < new Date(visit.date) ? existing.date : visit.date;
+    await refreshVisitAlerts(supabase, row, from);
+    return NextResponse.json({ visit });
+  } catch (error) {
+    return serverErrorResponse(error);
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  const session = await requireStaff(request);
+  if (session instanceof NextResponse) {
+    return session;
+  }
+  const { supabase } = session;
+
+  const denied = requirePermission(session, "deleteRecords", "방문 기록 삭제 권한이 없습니다.");
+  if (denied) {
+    return denied;
+  }
+
+  const { id } = await params;
+  try {
+    const existing = await getActiveVisit(supabase, id);
+    if (!existing) {
+      return errorResponse("방문 기록을 찾을 수 없습니다.", 404);
+    }
+    await deleteVisit(supabase, id);
+    const row = await getPatientRow(supabase, existing.patientId);
+    if (row) {
+      await refreshVisitAlerts(supabase, row, existing.date);
+    }
+    return NextResponse.json({ id });
+  } catch (error) {
+    return serverErrorResponse(error);
+  }
+}
@@ -0,0 +1,284 @@
+"use client";
+
+import Link from "next/link";
+import { useState } from "react";
+import SessionGate from "../../components/SessionGate";
+import { ApiError, errorMessage, requestJson } from "../../lib/apiClient";
+import { parseCsvLine, splitCsvLines } from "../../lib/csv";
+import type { ImportPreviewRow, ImportRowStatus } from "../../lib/records";
+
+type ImportCsvRow = {
+  line: number;
+  name: string;
+  residentId: string;
+  chartNo: string;
+  visitDate: string;
+  height: string;
+  weight: string;
+  headCircumference: string;
+};
+
+type ImportField = Exclude<keyof ImportCsvRow, "line">;
+
+const importHeaders: Record<string, ImportField> = {
+  이름: "name",
+  주민등록번호: "residentId",
+  차트번호: "chartNo",
+  검사일: "visitDate",
+  키: "height",
+  몸무게: "weight",
+  머리둘레: "headCircumference"
+};
+
+const requiredFields: ImportField[] = ["name", "residentId", "visitDate", "height", "weight"];
+
+const statusLabels: Record<ImportRowStatus, string> = {
+  new: "추가",
+  duplicate: "중복",
+  error: "오류"
+};
+
+const statusTones: Record<ImportRowStatus, string> = {
+  new: "",
+  duplicate: "bg-amber-50",
+  error: "bg-red-50"
+};
+
+function normalizeHeader(value: string) {
+  return value.replace(/\(.*?\)/g, "").replace(/\s/g, "");
+}
+
+function parseImportCsv(content: string): ImportCsvRow[] | string {
+  const lines = splitCsvLines(content);
+  if (lines.length < 2) {
+    return "헤더와 데이터 행이 있는 CSV 파일을 선택해주세요.";
+  }
+
+  const columns = parseCsvLine(lines[0]).map((header) => importHeaders[normalizeHeader(header)]);
+  const missing = requiredFields.filter((field) => !columns.includes(field));
+  if (missing.length) {
+    const labels = Object.entries(importHeaders)
+      .filter(([, field]) => missing.includes(field))
+      .map(([label]) => label);
+    return `필수 열이 없습니다: ${labels.join(", ")}`;
+  }
+
+  return lines.slice(1).map((line, index) => {
+    const row: ImportCsvRow = {
+      line: index + 2,
+      name: "",
+      residentId: "",
+      chartNo: "",
+      visitDate: "",
+      height: "",
+      weight: "",
+      headCircumference: ""
+    };
+    parseCsvLine(line).forEach((value, columnIndex) => {
+      const field = columns[columnIndex];
+      if (field) {
+        row[field] = field === "visitDate" ? value.replace(/[./]/g, "-") : value;
+      }
+    });
+    return row;
+  });
+}
+
+function ImportPage() {
+  const [fileName, setFileName] = useState("");
+  const [rows, setRows] = useState<ImportCsvRow[]>([]);
+  const [preview, setPreview] = useState<ImportPreviewRow[]>([]);
+  const [message, setMessage] = useState<{ text: string; type: "error" | "success" } | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+
+  const counts = preview.reduce(
+    (acc, row) => ({ ...acc, [row.status]: acc[row.status] + 1 }),
+    { new: 0, duplicate: 0, error: 0 } as Record<ImportRowStatus, number>
+  );
+  const newPatients = new Set(
+    preview.filter((row) => row.status === "new" && row.newPatient).map((row) => row.name)
+  ).size;
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) {
+      return;
+    }
+    setFileName(file.name);
+    setPreview([]);
+    setRows([]);
+    setMessage(null);
+
+    const parsed = parseImportCsv(await file.text());
+    if (typeof parsed === "string") {
+      setMessage({ text: parsed, type: "error" });
+      return;
+    }
+
+    setIsWorking(true);
+    try {
+      const { rows: previewRows } = await requestJson<{ rows: ImportPreviewRow[] }>(
+        "/api/import/preview",
+        { method: "POST", body: { rows: parsed } }
+      );
+      setRows(parsed);
+      setPreview(previewRows);
+    } catch (error) {
+      setMessage({ text: errorMessage(error, "미리보기를 만들지 못했습니다."), type: "error" });
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleImport = async () => {
+    setIsWorking(true);
+    try {
+      const result = await requestJson<{ patients: number; visits: number; skipped: number }>(
+        "/api/import",
+        { method: "POST", body: { rows } }
+      );
+      setMessage({
+        text: `환자 ${result.patients}명의 방문 기록 ${result.visits}건을 가져왔습니다.${
+          result.skipped ? ` 중복 ${result.skipped}건은 건너뛰었습니다.` : ""
+        }`,
+        type: "success"
+      });
+      setRows([]);
+      setPreview([]);
+    } catch (error) {
+      setMessage({
+        text: errorMessage(error, "가져오기 중 오류가 발생했습니다. 아무 기록도 저장되지 않았습니다."),
+        type: "error"
+      });
+      if (error instanceof ApiError && error.status === 400) {
+        const { rows: previewRows } = await requestJson<{ rows: ImportPreviewRow[] }>(
+          "/api/import/preview",
+          { method: "POST", body: { rows } }
+        ).catch(() => ({ rows: preview }));
+        setPreview(previewRows);
+      }
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  return (
+    <div className="mx-auto min-h-screen max-w-6xl px-6 pb-20 pt-10">
+      <header className="flex flex-wrap items-start justify-between gap-6">
+        <div>
+          <span className="text-xs uppercase tracking-[0.3em] text-accent2">Growth Tracker</span>
+          <h1 className="mt-2 text-4xl font-semibold text-ink">측정값 가져오기</h1>
+          <p className="mt-2 max-w-xl text-sm text-muted">
+            다른 병원이나 이전 EMR의 측정값 CSV를 확인한 뒤 한 번에 저장합니다.
+          </p>
+        </div>
+        <Link
+          href="/patients"
+          className="no-print rounded-full border border-outline px-5 py-2 text-sm font-medium text-ink transition hover:-translate-y-0.5"
+        >
+          환자 목록
+        </Link>
+      </header>
+
+      <main className="mt-10 grid gap-6">
+        <section className="card frost animate-[rise_0.7s_ease] p-6">
+          <h2 className="text-xl font-semibold">CSV 파일</h2>
+          <p className="mt-2 text-sm text-muted">
+            첫 행은 헤더입니다. 필수 열: 이름, 주민등록번호, 검사일, 키(cm), 몸무게(kg) · 선택 열:
+            차트번호, 머리둘레(cm). 검사일은 2024-03-15 또는 2024.03.15 형식으로 입력합니다.
+          </p>
+          <label className="mt-4 inline-flex cursor-pointer items-center gap-3 rounded-full border border-outline bg-white/80 px-5 py-2 text-sm font-medium text-ink transition hover:-translate-y-0.5">
+            파일 선택
+            <input
+              type="file"
+              accept=".csv,text/csv"
+              onChange={handleFile}
+              disabled={isWorking}
+              className="hidden"
+            />
+          </label>
+          {fileName && <span className="ml-3 text-sm text-muted">{fileName}</span>}
+          {message && (
+            <div
+              className={`mt-4 rounded-2xl px-4 py-3 text-sm ${
+                message.type === "error" ? "bg-red-100 text-red-700" : "bg-emerald-100 text-emerald-800"
+              }`}
+            >
+              {message.text}
+            </div>
+          )}
+        </section>
+
+        {preview.length > 0 && (
+          <section className="card frost animate-[rise_0.9s_ease] p-6">
+            <div className="flex flex-wrap items-center justify-between gap-3">
+              <h2 className="text-xl font-semibold">미리보기</h2>
+              <div className="flex items-center gap-3 text-sm text-muted">
+                <span>
+                  추가 {counts.new}건 (신규 환자 {newPatients}명) · 중복 {counts.duplicate}건 · 오류{" "}
+                  {counts.error}건
+                </span>
+                <button
+                  type="button"
+                  onClick={handleImport}
+                  disabled={isWorking || counts.error > 0 || counts.new === 0}
+                  className="rounded-full bg-accent px-6 py-2 text-sm font-semibold text-ink shadow-glow transition hover:-translate-y-0.5 disabled:cursor-not-allowed disabled:opacity-70"
+                >
+                  {isWorking ? "저장 중..." : "가져오기"}
+                </button>
+              </div>
+            </div>
+            {counts.error > 0 && (
+              <p className="mt-3 text-sm text-red-700">
+                오류가 있는 행을 CSV에서 수정한 뒤 파일을 다시 선택해주세요.
+              </p>
+            )}
+            <div className="mt-4 overflow-x-auto">
+              <table className="w-full text-left text-sm">
+                <thead className="text-xs text-muted">
+                  <tr>
+                    <th className="px-3 py-2 font-medium">행</th>
+                    <th className="px-3 py-2 font-medium">이름</th>
+                    <th className="px-3 py-2 font-medium">검사일</th>
+                    <th className="px-3 py-2 font-medium">키 (cm)</th>
+                    <th className="px-3 py-2 font-medium">몸무게 (kg)</th>
+                    <th className="px-3 py-2 font-medium">상태</th>
+                    <th className="px-3 py-2 font-medium">내용</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {preview.map((row) => (
+                    <tr
+                      key={row.line}
+                      className={`border-t border-outline/60 ${statusTones[row.status]}`}
+                    >
+                      <td className="px-3 py-2 text-muted">{row.line}</td>
+                      <td className="px-3 py-2 font-semibold text-ink">{row.name || "—"}</td>
+                      <td className="px-3 py-2 text-muted">{row.visitDate || "—"}</td>
+                      <td className="px-3 py-2 text-ink">{row.height?.toFixed(1) ?? "—"}</td>
+                      <td className="px-3 py-2 text-ink">{row.weight?.toFixed(1) ?? "—"}</td>
+                      <td className="px-3 py-2 text-ink">
+                        {statusLabels[row.status]}
+                        {row.status === "new" && row.newPatient ? " · 신규 환자" : ""}
+                      </td>
+                      <td className="px-3 py-2 text-xs text-muted">{row.message ?? ""}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </section>
+        )}
+      </main>
+    </div>
+  );
+}
+
+export default function Page() {
+  return (
+    <SessionGate>
+      <ImportPage />
+    </SessionGate>
+  );
+}
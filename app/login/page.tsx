@@ -0,0 +1,76 @@
+"use client";
+
+import { useRouter } from "next/navigation";
+import { useState } from "react";
+import { isSupabaseConfigured, supabase } from "../../lib/supabaseClient";
+
+export default function LoginPage() {
+  const router = useRouter();
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [isSigningIn, setIsSigningIn] = useState(false);
+
+  const handleSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!isSupabaseConfigured) {
+      setError("Supabase 환경 변수가 필요합니다. `.env.local`을 설정해주세요.");
+      return;
+    }
+
+    setIsSigningIn(true);
+    setError(null);
+    const { error: signInError } = await supabase.auth.signInWithPassword({
+      email: email.trim(),
+      password
+    });
+    setIsSigningIn(false);
+
+    if (signInError) {
+      setError("이메일 또는 비밀번호를 확인해주세요.");
+      return;
+    }
+    router.replace("/");
+  };
+
+  return (
+    <div className="mx-auto flex min-h-screen max-w-md flex-col justify-center px-6 pb-20 pt-10">
+      <span className="text-xs uppercase tracking-[0.3em] text-accent2">Growth Tracker</span>
+      <h1 className="mt-2 text-4xl font-semibold text-ink">직원 로그인</h1>
+      <form onSubmit={handleSubmit} className="card frost mt-8 space-y-4 p-6">
+        <label className="block text-sm text-muted">
+          이메일
+          <input
+            type="email"
+            value={email}
+            onChange={(event) => setEmail(event.target.value)}
+            required
+            autoComplete="username"
+            className="mt-2 w-full rounded-xl border border-outline bg-white/80 px-3 py-2 text-base text-ink outline-none focus:border-accent2"
+          />
+        </label>
+        <label className="block text-sm text-muted">
+          비밀번호
+          <input
+            type="password"
+            value={password}
+            onChange={(event) => setPassword(event.target.value)}
+            required
+            autoComplete="current-password"
+            className="mt-2 w-full rounded-xl border border-outline bg-white/80 px-3 py-2 text-base text-ink outline-none focus:border-accent2"
+          />
+        </label>
+        {error && (
+          <div className="rounded-2xl bg-red-100 px-4 py-3 text-sm text-red-700">{error}</div>
+        )}
+        <button
+          type="submit"
+          disabled={isSigningIn}
+          className="w-full rounded-full bg-accent px-6 py-2 text-sm font-semibold text-ink shadow-glow transition hover:-translate-y-0.5 disabled:cursor-not-allowed disabled:opacity-70"
+        >
+          {isSigningIn ? "로그인 중..." : "로그인"}
+        </button>
+      </form>
+    </div>
+  );
+}
@@ -1,8 +1,100 @@
 "use client";
 
-import { useEffect, useMemo, useState } from "react";
-import MetricChart, { ChartEvent, ReferenceCurve } from "../components/MetricChart";
-import { isSupabaseConfigured, supabase } from "../lib/supabaseClient";
+import Link from "next/link";
+import { useCallback, useEffect, useMemo, useState } from "react";
+import MetricChart, {
+  ChartBoneAgePoint,
+  ChartTargetRange,
+  ReferenceCurve
+} from "../components/MetricChart";
+import SessionGate, { useStaff } from "../components/SessionGate";
+import UndoToast from "../components/UndoToast";
+import VisitHistoryTable from "../components/VisitHistoryTable";
+import { GrowthAlert, growthAlertLabels } from "../lib/alerts";
+import { errorMessage, requestBlob, requestJson } from "../lib/apiClient";
+import {
+  buildInjectionEvents,
+  buildPubertyMarks,
+  buildReferenceCurves,
+  buildTreatmentSpans
+} from "../lib/chartData";
+import {
+  buildGrowthSheet,
+  downloadBlob,
+  downloadGrowthExport,
+  ExportFormat,
+  exportFileName,
+  reportFileName
+} from "../lib/export";
+import {
+  BoneAgeMethod,
+  boneAgeMethodLabels,
+  boneAgeOnDate,
+  BoneAgeReading,
+  findClosestByDate,
+  predictAdultHeight
+} from "../lib/boneAge";
+import {
+  formatAge,
+  formatDate,
+  formatGestationalAge,
+  formatShortDate,
+  getTodayInputValue,
+  parseDateInput,
+  toDateInputValue
+} from "../lib/format";
+import {
+  bmiStatus,
+  computeHeightVelocity,
+  computeMidParentalHeight,
+  computeVelocitySeries,
+  correctAgeMonths,
+  evaluateGrowth,
+  DEFAULT_GROWTH_REFERENCE,
+  findVelocityBaseline,
+  formatEvaluation,
+  GrowthMetric,
+  GrowthReference,
+  growthReferenceLabels,
+  GrowthTable,
+  isGrowthReference,
+  tableCoverage,
+  tableCoverageLabels,
+  tableReferenceFor,
+  weightForStatureMetric
+} from "../lib/growth";
+import { hasPermission } from "../lib/permissions";
+import {
+  breastGenitalLabel,
+  findPubertyOnset,
+  formatPubertyOnset,
+  formatTannerStage,
+  hasPubertyStaging,
+  MAX_TESTICULAR_VOLUME_ML,
+  TANNER_STAGES
+} from "../lib/puberty";
+import { Patient, PatientMatch, TrashKind, Visit } from "../lib/records";
+import {
+  formatBirthSex,
+  getAgeInfo,
+  getSexKey,
+  normalizeResidentId,
+  parseResidentId
+} from "../lib/residentId";
+import {
+  defaultTreatmentSettings,
+  DoseUnit,
+  doseUnitLabels,
+  formatTreatment,
+  formatTreatmentPeriod,
+  isTreatmentActive,
+  Treatment,
+  TreatmentDrug,
+  treatmentDrugLabels,
+  TreatmentFrequency,
+  treatmentFrequencyLabels
+} from "../lib/treatment";
+import type { PatientPayload, TreatmentInput, VisitInput } from "../lib/validation";
 
 type StatusType = "info" | "error" | "warn" | "success";
 
@@ -11,76 +103,29 @@ type Status = {
   type: StatusType;
 };
 
-type Patient = {
-  id: string;
-  name: string;
-  residentId: string;
-  chartNo: string | null;
-};
-
-type Visit = {
-  id: string;
-  date: string;
-  height: number;
-  weight: number;
-  bmi: number;
-  ageMonths: number;
-  growthInjection: boolean;
-  suppressionInjection: boolean;
-};
-
-type VisitRow = {
-  id: string;
-  height_cm: number | string | null;
-  weight_kg: number | string | null;
-  bmi: number | string | null;
-  age_months: number;
-  created_at: string;
-  growth_injection: boolean | null;
-  suppression_injection: boolean | null;
-};
-
-type AgeInfo = {
-  birth: Date;
-  ageMonths: number;
-};
-
-type GrowthCurve = {
-  ages: number[];
-  percentiles: Record<string, number[]>;
-};
-
-type GrowthTable = {
-  metric: "height" | "weight";
-  percentiles: string[];
-  bySex: Record<string, GrowthCurve>;
-};
-
-const visitSelectFields =
-  "id, height_cm, weight_kg, bmi, age_months, created_at, growth_injection, suppression_injection";
-
 type ExpandedChart = {
-  metric: "height" | "weight";
+  metric: GrowthMetric;
   title: string;
   subtitle: string;
 };
 
-const centuryMap: Record<string, number> = {
-  "1": 1900,
-  "2": 1900,
-  "3": 2000,
-  "4": 2000,
-  "5": 1900,
-  "6": 1900,
-  "7": 2000,
-  "8": 2000
-};
-
 const defaultStatus: Status = {
   message: "입력 후 저장하면 성장상태가 계산됩니다.",
   type: "info"
 };
 
+const metricTitles: Record<GrowthMetric, { chart: string; axis: string }> = {
+  height: { chart: "키 차트", axis: "키 (cm)" },
+  weight: { chart: "몸무게 차트", axis: "몸무게 (kg)" },
+  bmi: { chart: "BMI 차트", axis: "BMI (kg/m²)" },
+  head: { chart: "머리둘레 차트", axis: "머리둘레 (cm)" },
+  "weight-for-length": { chart: "누운키별 체중 차트", axis: "누운키별 체중 (kg)" },
+  "weight-for-height": { chart: "신장별 체중 차트", axis: "신장별 체중 (kg)" },
+  "height-velocity": { chart: "성장속도 차트", axis: "성장속도 (cm/년)" }
+};
+
+const ADULT_AGE_MONTHS = 216;
+
 const statusStyles: Record<StatusType, string> = {
   info: "bg-accent2/10 text-muted",
   error: "bg-red-100 text-red-700",
@@ -88,141 +133,16 @@ const statusStyles: Record<StatusType, string> = {
   success: "bg-emerald-100 text-emerald-800"
 };
 
-function normalizeResidentId(value: string) {
-  return value.replace(/\D/g, "");
-}
-
-function parseDateInput(value: string) {
-  if (!value) {
-    return null;
-  }
-  const [year, month, day] = value.split("-").map((part) => Number.parseInt(part, 10));
-  if (!year || !month || !day) {
-    return null;
-  }
-  return new Date(year, month - 1, day);
-}
-
-function getAgeMonths(birth: Date, onDate: Date) {
-  let months =
-    (onDate.getFullYear() - birth.getFullYear()) * 12 +
-    (onDate.getMonth() - birth.getMonth());
-  if (onDate.getDate() < birth.getDate()) {
-    months -= 1;
-  }
-  return months;
-}
-
-function getSexKey(value: string) {
-  const digits = normalizeResidentId(value);
-  if (digits.length < 7) {
-    return null;
-  }
-  const genderCode = digits[6];
-  if (["1", "3", "5", "7"].includes(genderCode)) {
-    return "1";
-  }
-  if (["2", "4", "6", "8"].includes(genderCode)) {
-    return "2";
-  }
-  return null;
-}
-
-function toVisitTimestamp(value: string) {
-  const parsed = parseDateInput(value);
-  if (!parsed) {
-    return null;
-  }
-  const localNoon = new Date(
-    parsed.getFullYear(),
-    parsed.getMonth(),
-    parsed.getDate(),
-    12,
-    0,
-    0,
-    0
-  );
-  return localNoon.toISOString();
-}
-
-function parseResidentId(value: string, referenceDate: Date = new Date()): AgeInfo | null {
-  const digits = normalizeResidentId(value);
-  if (digits.length !== 13) {
-    return null;
-  }
-
-  const yy = Number.parseInt(digits.slice(0, 2), 10);
-  const mm = Number.parseInt(digits.slice(2, 4), 10);
-  const dd = Number.parseInt(digits.slice(4, 6), 10);
-  const genderCode = digits[6];
-  const century = centuryMap[genderCode];
-
-  if (!century || mm < 1 || mm > 12 || dd < 1 || dd > 31) {
+function parseGestationalAge(weeks: string, days: string) {
+  if (!weeks.trim()) {
     return null;
   }
-
-  const year = century + yy;
-  const birth = new Date(year, mm - 1, dd);
-  if (
-    birth.getFullYear() !== year ||
-    birth.getMonth() !== mm - 1 ||
-    birth.getDate() !== dd
-  ) {
-    return null;
-  }
-
-  const ageMonths = getAgeMonths(birth, referenceDate);
-
-  if (ageMonths < 0) {
-    return null;
-  }
-
-  return { birth, ageMonths };
-}
-
-function formatAge(ageMonths: number) {
-  if (ageMonths < 24) {
-    return `${ageMonths}개월`;
-  }
-  const years = Math.floor(ageMonths / 12);
-  const months = ageMonths % 12;
-  return months === 0 ? `${years}년` : `${years}년 ${months}개월`;
-}
-
-function formatDate(value: string) {
-  return new Date(value).toLocaleDateString("ko-KR", {
-    year: "numeric",
-    month: "2-digit",
-    day: "2-digit"
-  });
-}
-
-function formatShortDate(value: string) {
-  return new Date(value).toLocaleDateString("ko-KR", {
-    month: "2-digit",
-    day: "2-digit"
-  });
-}
-
-function maskResidentId(value: string) {
-  const digits = normalizeResidentId(value);
-  if (digits.length < 7) {
-    return value;
-  }
-  return `${digits.slice(0, 6)}-${digits[6]}******`;
-}
-
-function bmiStatus(bmi: number) {
-  if (bmi < 18.5) {
-    return "낮음";
-  }
-  if (bmi < 23) {
-    return "보통";
+  const weekValue = Number.parseInt(weeks, 10);
+  const dayValue = days.trim() ? Number.parseInt(days, 10) : 0;
+  if (!Number.isFinite(weekValue) || !Number.isFinite(dayValue) || dayValue < 0 || dayValue > 6) {
+    return Number.NaN;
   }
-  if (bmi < 25) {
-    return "높음";
-  }
-  return "주의";
+  return weekValue * 7 + dayValue;
 }
 
 function diffDays(from: string, to: string) {
@@ -231,38 +151,44 @@ function diffDays(from: string, to: string) {
   return Math.max(1, Math.round((end - start) / (1000 * 60 * 60 * 24)));
 }
 
-function toNumber(value: number | string | null) {
-  if (value === null || value === undefined) {
-    return 0;
-  }
-  return typeof value === "number" ? value : Number.parseFloat(value);
-}
-
-function getTodayInputValue() {
-  const now = new Date();
-  const offsetMs = now.getTimezoneOffset() * 60000;
-  return new Date(now.getTime() - offsetMs).toISOString().slice(0, 10);
-}
-
-function toDateInputValue(value: string) {
-  const parsed = new Date(value);
-  if (Number.isNaN(parsed.getTime())) {
-    return "";
-  }
-  const offsetMs = parsed.getTimezoneOffset() * 60000;
-  return new Date(parsed.getTime() - offsetMs).toISOString().slice(0, 10);
+function patientFormFields(patient: Patient) {
+  return {
+    name: patient.name,
+    residentId: "",
+    chartNo: patient.chartNo ?? "",
+    fatherHeight: patient.fatherHeight !== null ? patient.fatherHeight.toFixed(1) : "",
+    motherHeight: patient.motherHeight !== null ? patient.motherHeight.toFixed(1) : "",
+    gestationalWeeks:
+      patient.gestationalAgeDays !== null ? String(Math.floor(patient.gestationalAgeDays / 7)) : "",
+    gestationalDays:
+      patient.gestationalAgeDays !== null ? String(patient.gestationalAgeDays % 7) : ""
+  };
 }
 
-export default function Home() {
+function Home() {
+  const staff = useStaff();
+  const canEditVisits = hasPermission(staff?.role, "editVisits");
+  const canDeleteRecords = hasPermission(staff?.role, "deleteRecords");
+  const canSetInjections = hasPermission(staff?.role, "setInjections");
+  const canSetGrowthReference = hasPermission(staff?.role, "setGrowthReference");
   const [form, setForm] = useState({
     name: "",
     residentId: "",
     chartNo: "",
+    fatherHeight: "",
+    motherHeight: "",
+    gestationalWeeks: "",
+    gestationalDays: "",
     visitDate: getTodayInputValue(),
     growthInjection: false,
     suppressionInjection: false,
+    treatmentId: "",
     height: "",
-    weight: ""
+    weight: "",
+    headCircumference: "",
+    tannerBreastGenital: "",
+    tannerPubicHair: "",
+    testicularVolume: ""
   });
   const [status, setStatus] = useState<Status>(defaultStatus);
   const [isLoading, setIsLoading] = useState(false);
@@ -272,19 +198,51 @@ export default function Home() {
   const [visits, setVisits] = useState<Visit[]>([]);
   const [heightTable, setHeightTable] = useState<GrowthTable | null>(null);
   const [weightTable, setWeightTable] = useState<GrowthTable | null>(null);
+  const [bmiTable, setBmiTable] = useState<GrowthTable | null>(null);
+  const [headTable, setHeadTable] = useState<GrowthTable | null>(null);
+  const [weightForLengthTable, setWeightForLengthTable] = useState<GrowthTable | null>(null);
+  const [weightForHeightTable, setWeightForHeightTable] = useState<GrowthTable | null>(null);
+  const [loadedTableReference, setLoadedTableReference] = useState<GrowthReference | null>(null);
+  const [availableReferences, setAvailableReferences] = useState<GrowthReference[] | null>(null);
+  const [growthReference, setGrowthReference] = useState<GrowthReference>(
+    DEFAULT_GROWTH_REFERENCE
+  );
+  const [velocityBaselineId, setVelocityBaselineId] = useState<string | null>(null);
+  const [boneAges, setBoneAges] = useState<BoneAgeReading[]>([]);
+  const [boneAgeForm, setBoneAgeForm] = useState({
+    date: getTodayInputValue(),
+    years: "",
+    months: "0",
+    method: "greulich-pyle" as BoneAgeMethod
+  });
+  const [isSavingBoneAge, setIsSavingBoneAge] = useState(false);
+  const [treatments, setTreatments] = useState<Treatment[]>([]);
+  const [treatmentForm, setTreatmentForm] = useState({
+    drug: "growth-hormone" as TreatmentDrug,
+    dose: "",
+    unit: defaultTreatmentSettings["growth-hormone"].unit,
+    frequency: defaultTreatmentSettings["growth-hormone"].frequency,
+    startedOn: getTodayInputValue(),
+    lotNumber: ""
+  });
+  const [isSavingTreatment, setIsSavingTreatment] = useState(false);
   const [editingVisitId, setEditingVisitId] = useState<string | null>(null);
   const [deletingVisitId, setDeletingVisitId] = useState<string | null>(null);
+  const [undo, setUndo] = useState<{ kind: TrashKind; id: string; message: string } | null>(null);
+  const [isUndoing, setIsUndoing] = useState(false);
+  const [isReporting, setIsReporting] = useState(false);
   const [expandedChart, setExpandedChart] = useState<ExpandedChart | null>(null);
   const [chartPulse, setChartPulse] = useState(false);
 
   useEffect(() => {
     let active = true;
     const loadTable = async (
-      metric: "height" | "weight",
+      metric: GrowthMetric,
       setter: (value: GrowthTable | null) => void
     ) => {
       try {
-        const response = await fetch(`/api/growth-table?metric=${metric}`);
+        const reference = tableReferenceFor(metric, growthReference);
+        const response = await fetch(`/api/growth-table?metric=${metric}&reference=${reference}`);
         if (!response.ok) {
           throw new Error("Failed to load growth table");
         }
@@ -299,12 +257,35 @@ export default function Home() {
       }
     };
 
-    loadTable("height", setHeightTable);
-    loadTable("weight", setWeightTable);
+    Promise.all([
+      loadTable("height", setHeightTable),
+      loadTable("weight", setWeightTable),
+      loadTable("bmi", setBmiTable),
+      loadTable("head", setHeadTable),
+      loadTable("weight-for-length", setWeightForLengthTable),
+      loadTable("weight-for-height", setWeightForHeightTable)
+    ]).then(() => {
+      if (active) {
+        setLoadedTableReference(growthReference);
+      }
+    });
 
     return () => {
       active = false;
     };
+  }, [growthReference]);
+
+  useEffect(() => {
+    requestJson<{ references: GrowthReference[] }>("/api/growth-table/references")
+      .then(({ references }) => setAvailableReferences(references))
+      .catch(() => setAvailableReferences(null));
+  }, []);
+
+  useEffect(() => {
+    const patientId = new URLSearchParams(window.location.search).get("patient");
+    if (patientId) {
+      loadPatient(patientId);
+    }
   }, []);
 
   useEffect(() => {
@@ -333,32 +314,68 @@ export default function Home() {
     () => parseDateInput(form.visitDate) ?? new Date(),
     [form.visitDate]
   );
-  const ageInfo = useMemo(
-    () => parseResidentId(form.residentId, visitDateValue),
-    [form.residentId, visitDateValue]
-  );
-  const ageLabel = ageInfo ? formatAge(ageInfo.ageMonths) : "";
+  const ageInfo = useMemo(() => {
+    if (form.residentId.trim()) {
+      return parseResidentId(form.residentId, visitDateValue);
+    }
+    return currentPatient ? getAgeInfo(currentPatient.birthDate, visitDateValue) : null;
+  }, [form.residentId, currentPatient, visitDateValue]);
+  const formGestationalAgeDays = parseGestationalAge(form.gestationalWeeks, form.gestationalDays);
+  const gestationalAgeDays = currentPatient
+    ? currentPatient.gestationalAgeDays
+    : formGestationalAgeDays !== null && Number.isFinite(formGestationalAgeDays)
+    ? formGestationalAgeDays
+    : null;
+  const plotAge = (ageMonths: number) => correctAgeMonths(ageMonths, gestationalAgeDays);
+  const inputAgeMonths = ageInfo ? plotAge(ageInfo.ageMonths) : undefined;
+  const ageLabel = ageInfo
+    ? inputAgeMonths !== undefined && inputAgeMonths !== ageInfo.ageMonths
+      ? `${formatAge(ageInfo.ageMonths)} (교정 ${formatAge(inputAgeMonths)})`
+      : formatAge(ageInfo.ageMonths)
+    : "";
   const ageBucket = ageInfo
     ? ageInfo.ageMonths < 36
       ? "36개월 미만"
       : "36개월 이상"
     : "";
-  const inputAgeMonths = ageInfo?.ageMonths;
   const inputHeight = Number.parseFloat(form.height);
   const inputWeight = Number.parseFloat(form.weight);
   const previewHeightPoint =
     Number.isFinite(inputHeight) && typeof inputAgeMonths === "number"
       ? { x: inputAgeMonths, y: inputHeight }
       : currentVisit
-      ? { x: currentVisit.ageMonths, y: currentVisit.height }
+      ? { x: plotAge(currentVisit.ageMonths), y: currentVisit.height }
       : undefined;
   const previewWeightPoint =
     Number.isFinite(inputWeight) && typeof inputAgeMonths === "number"
       ? { x: inputAgeMonths, y: inputWeight }
       : currentVisit
-      ? { x: currentVisit.ageMonths, y: currentVisit.weight }
+      ? { x: plotAge(currentVisit.ageMonths), y: currentVisit.weight }
+      : undefined;
+  const inputHeadCircumference = Number.parseFloat(form.headCircumference);
+  const previewHeadPoint =
+    Number.isFinite(inputHeadCircumference) && typeof inputAgeMonths === "number"
+      ? { x: inputAgeMonths, y: inputHeadCircumference }
+      : currentVisit && currentVisit.headCircumference !== null
+      ? { x: plotAge(currentVisit.ageMonths), y: currentVisit.headCircumference }
+      : undefined;
+  const inputBmi =
+    Number.isFinite(inputHeight) && Number.isFinite(inputWeight) && inputHeight > 0
+      ? inputWeight / Math.pow(inputHeight / 100, 2)
+      : Number.NaN;
+  const previewBmiPoint =
+    Number.isFinite(inputBmi) && typeof inputAgeMonths === "number"
+      ? { x: inputAgeMonths, y: inputBmi }
+      : currentVisit
+      ? { x: plotAge(currentVisit.ageMonths), y: currentVisit.bmi }
+      : undefined;
+  const previewWeightForHeightPoint =
+    Number.isFinite(inputHeight) && Number.isFinite(inputWeight)
+      ? { x: inputHeight, y: inputWeight }
+      : currentVisit
+      ? { x: currentVisit.height, y: currentVisit.weight }
       : undefined;
-  const activeAgeMonths = currentVisit?.ageMonths ?? inputAgeMonths;
+  const activeAgeMonths = currentVisit?.ageMonths ?? ageInfo?.ageMonths;
   const ageMonthsValue =
     typeof activeAgeMonths === "number" && Number.isFinite(activeAgeMonths)
       ? activeAgeMonths
@@ -366,7 +383,9 @@ export default function Home() {
   const hasAgeInfo = ageMonthsValue !== null;
   const showUnder36 = ageMonthsValue !== null && ageMonthsValue < 36;
   const showOver36 = ageMonthsValue !== null && ageMonthsValue >= 36;
+  const statureMetric = weightForStatureMetric(ageMonthsValue ?? 0);
   const chartAgeFormatter = (value: number) => formatAge(Math.round(value));
+  const chartHeightFormatter = (value: number) => `${value.toFixed(0)}cm`;
   const chartPulseClass = chartPulse ? "animate-[chart-reveal_0.8s_ease]" : "";
   const isMutating = isLoading || Boolean(deletingVisitId);
   const submitLabel = isLoading
@@ -378,21 +397,72 @@ export default function Home() {
   const chartLabels = useMemo(() => visits.map((visit) => formatShortDate(visit.date)), [visits]);
   const heightValues = useMemo(() => visits.map((visit) => visit.height), [visits]);
   const weightValues = useMemo(() => visits.map((visit) => visit.weight), [visits]);
-  const visitAges = useMemo(() => visits.map((visit) => visit.ageMonths), [visits]);
+  const bmiValues = useMemo(() => visits.map((visit) => visit.bmi), [visits]);
+  const headValues = useMemo(
+    () => visits.map((visit) => visit.headCircumference ?? Number.NaN),
+    [visits]
+  );
+  const visitAges = useMemo(
+    () => visits.map((visit) => correctAgeMonths(visit.ageMonths, gestationalAgeDays)),
+    [visits, gestationalAgeDays]
+  );
+  const velocitySeries = useMemo(() => computeVelocitySeries(visits), [visits]);
+  const velocityValues = useMemo(
+    () => velocitySeries.map((entry) => entry.velocity),
+    [velocitySeries]
+  );
+  const velocityAges = useMemo(
+    () => velocitySeries.map((entry) => entry.ageMonths),
+    [velocitySeries]
+  );
+  const velocityLabels = useMemo(
+    () =>
+      velocitySeries.map((entry) => {
+        const visit = visits.find((item) => item.id === entry.toId);
+        return visit ? formatShortDate(visit.date) : "";
+      }),
+    [velocitySeries, visits]
+  );
 
-  const historyVisits = useMemo(() => {
-    return [...visits]
-      .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime())
-      .slice(0, 5);
-  }, [visits]);
+  const velocityBaselineOptions = useMemo(() => {
+    if (!currentVisit) {
+      return [];
+    }
+    return visits
+      .filter((visit) => computeHeightVelocity(visit, currentVisit) !== null)
+      .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+  }, [visits, currentVisit]);
+
+  const currentVelocity = useMemo(() => {
+    if (!currentVisit) {
+      return null;
+    }
+    const baseline =
+      velocityBaselineOptions.find((visit) => visit.id === velocityBaselineId) ??
+      findVelocityBaseline(visits, currentVisit);
+    return baseline ? computeHeightVelocity(baseline, currentVisit) : null;
+  }, [visits, currentVisit, velocityBaselineOptions, velocityBaselineId]);
 
   const sexKey = useMemo(
-    () => getSexKey(currentPatient?.residentId ?? form.residentId),
-    [currentPatient?.residentId, form.residentId]
+    () => currentPatient?.sex ?? getSexKey(form.residentId),
+    [currentPatient?.sex, form.residentId]
   );
 
+  const heightRange = useMemo(() => {
+    const heights = visits.map((visit) => visit.height).filter(Number.isFinite);
+    if (Number.isFinite(inputHeight)) {
+      heights.push(inputHeight);
+    }
+    if (!heights.length) {
+      return null;
+    }
+    const span = Math.max(1, Math.max(...heights) - Math.min(...heights));
+    const pad = Math.max(5, Math.round(span * 0.1));
+    return { min: Math.max(0, Math.min(...heights) - pad), max: Math.max(...heights) + pad };
+  }, [visits, inputHeight]);
+
   const ageRange = useMemo(() => {
-    const ages = visits.map((visit) => visit.ageMonths).filter(Number.isFinite);
+    const ages = visitAges.filter(Number.isFinite);
     if (typeof inputAgeMonths === "number" && Number.isFinite(inputAgeMonths)) {
       ages.push(inputAgeMonths);
     }
@@ -406,90 +476,279 @@ export default function Home() {
     minAge = Math.max(0, minAge - pad);
     maxAge += pad;
     return { min: minAge, max: maxAge };
-  }, [visits, inputAgeMonths]);
+  }, [visitAges, inputAgeMonths]);
+
+  const midParentalHeight = useMemo(
+    () =>
+      computeMidParentalHeight(
+        sexKey,
+        currentPatient?.fatherHeight ?? null,
+        currentPatient?.motherHeight ?? null
+      ),
+    [sexKey, currentPatient?.fatherHeight, currentPatient?.motherHeight]
+  );
 
-  const heightCurves = useMemo<ReferenceCurve[]>(() => {
-    if (!heightTable || !sexKey) {
-      return [];
+  const heightTargetRange = useMemo<ChartTargetRange | undefined>(() => {
+    if (!midParentalHeight || !showOver36) {
+      return undefined;
     }
-    const table = heightTable.bySex[sexKey];
-    if (!table) {
-      return [];
+    return {
+      x: ADULT_AGE_MONTHS,
+      value: midParentalHeight.target,
+      min: midParentalHeight.min,
+      max: midParentalHeight.max,
+      label: `목표키 ${midParentalHeight.target.toFixed(1)}`
+    };
+  }, [midParentalHeight, showOver36]);
+
+  const boneAgePoints = useMemo<ChartBoneAgePoint[]>(
+    () =>
+      visits.flatMap((visit) => {
+        const reading = findClosestByDate(boneAges, visit.date);
+        return reading
+          ? [
+              {
+                x: correctAgeMonths(visit.ageMonths, gestationalAgeDays),
+                boneAge: boneAgeOnDate(reading, visit.date),
+                y: visit.height
+              }
+            ]
+          : [];
+      }),
+    [visits, boneAges, gestationalAgeDays]
+  );
+
+  const heightAgeRange = useMemo(() => {
+    if (!ageRange) {
+      return ageRange;
     }
-    return heightTable.percentiles.map((key) => ({
-      key,
-      points: table.ages
-        .map((age, index) => ({
-          x: age,
-          y: table.percentiles[key]?.[index]
-        }))
-        .filter((point) => Number.isFinite(point.y))
-    }));
-  }, [heightTable, sexKey]);
-
-  const weightCurves = useMemo<ReferenceCurve[]>(() => {
-    if (!weightTable || !sexKey) {
-      return [];
+    const boneAgeValues = boneAgePoints.map((point) => point.boneAge);
+    const min = Math.max(0, Math.min(ageRange.min, ...boneAgeValues.map((value) => value - 3)));
+    let max = Math.max(ageRange.max, ...boneAgeValues.map((value) => value + 3));
+    if (heightTargetRange) {
+      max = Math.max(max, ADULT_AGE_MONTHS + 6);
+    }
+    return { min, max };
+  }, [ageRange, boneAgePoints, heightTargetRange]);
+
+  const adultHeightPrediction = useMemo(() => {
+    if (!currentPatient || !boneAges.length) {
+      return null;
+    }
+    const latest = [...boneAges].sort(
+      (a, b) => new Date(b.date).getTime() - new Date(a.date).getTime()
+    )[0];
+    const visit = findClosestByDate(visits, latest.date);
+    const ageAtReading = getAgeInfo(currentPatient.birthDate, new Date(latest.date));
+    if (!visit || !ageAtReading) {
+      return null;
     }
-    const table = weightTable.bySex[sexKey];
+    const prediction = predictAdultHeight(sexKey, latest, visit.height, ageAtReading.ageMonths);
+    return prediction ? { ...prediction, reading: latest } : null;
+  }, [currentPatient, boneAges, visits, sexKey]);
+
+  const targetHeightEvaluation = useMemo(
+    () =>
+      midParentalHeight
+        ? evaluateGrowth(heightTable, sexKey, ADULT_AGE_MONTHS, midParentalHeight.target)
+        : null,
+    [heightTable, sexKey, midParentalHeight]
+  );
+
+  const heightCurves = useMemo(() => buildReferenceCurves(heightTable, sexKey), [heightTable, sexKey]);
+  const weightCurves = useMemo(() => buildReferenceCurves(weightTable, sexKey), [weightTable, sexKey]);
+  const bmiCurves = useMemo(() => buildReferenceCurves(bmiTable, sexKey), [bmiTable, sexKey]);
+  const headCurves = useMemo(() => buildReferenceCurves(headTable, sexKey), [headTable, sexKey]);
+  const weightForLengthCurves = useMemo(
+    () => buildReferenceCurves(weightForLengthTable, sexKey),
+    [weightForLengthTable, sexKey]
+  );
+  const weightForHeightCurves = useMemo(
+    () => buildReferenceCurves(weightForHeightTable, sexKey),
+    [weightForHeightTable, sexKey]
+  );
+  const previewVelocityPoint = currentVelocity
+    ? { x: currentVelocity.ageMonths, y: currentVelocity.velocity }
+    : undefined;
+
+  const chartValues: Record<GrowthMetric, number[]> = {
+    height: heightValues,
+    weight: weightValues,
+    bmi: bmiValues,
+    head: headValues,
+    "weight-for-length": weightValues,
+    "weight-for-height": weightValues,
+    "height-velocity": velocityValues
+  };
+  const chartXValues: Record<GrowthMetric, number[]> = {
+    height: visitAges,
+    weight: visitAges,
+    bmi: visitAges,
+    head: visitAges,
+    "weight-for-length": heightValues,
+    "weight-for-height": heightValues,
+    "height-velocity": velocityAges
+  };
+  const chartCurves: Record<GrowthMetric, ReferenceCurve[]> = {
+    height: heightCurves,
+    weight: weightCurves,
+    bmi: bmiCurves,
+    head: headCurves,
+    "weight-for-length": weightForLengthCurves,
+    "weight-for-height": weightForHeightCurves,
+    "height-velocity": []
+  };
+  const chartPreviewPoints: Record<GrowthMetric, { x: number; y: number } | undefined> = {
+    height: previewHeightPoint,
+    weight: previewWeightPoint,
+    bmi: previewBmiPoint,
+    head: previewHeadPoint,
+    "weight-for-length": previewWeightForHeightPoint,
+    "weight-for-height": previewWeightForHeightPoint,
+    "height-velocity": previewVelocityPoint
+  };
+  // Height velocity has no reference table, so its chart carries no coverage notice.
+  const chartTables: Partial<Record<GrowthMetric, GrowthTable | null>> = {
+    height: heightTable,
+    weight: weightTable,
+    bmi: bmiTable,
+    head: headTable,
+    "weight-for-length": weightForLengthTable,
+    "weight-for-height": weightForHeightTable
+  };
+  const chartNotice = (metric: GrowthMetric) => {
+    if (loadedTableReference !== growthReference || !(metric in chartTables)) {
+      return null;
+    }
+    const table = chartTables[metric];
+    const point = chartPreviewPoints[metric];
     if (!table) {
-      return [];
+      return tableCoverageLabels.unavailable;
     }
-    return weightTable.percentiles.map((key) => ({
-      key,
-      points: table.ages
-        .map((age, index) => ({
-          x: age,
-          y: table.percentiles[key]?.[index]
-        }))
-        .filter((point) => Number.isFinite(point.y))
-    }));
-  }, [weightTable, sexKey]);
-
-  const injectionEvents = useMemo<ChartEvent[]>(() => {
-    return visits.flatMap((visit) => {
-      const events: ChartEvent[] = [];
-      if (visit.growthInjection) {
-        events.push({ x: visit.ageMonths, label: "성장주사", type: "growth" });
-      }
-      if (visit.suppressionInjection) {
-        events.push({ x: visit.ageMonths, label: "억제주사", type: "suppression" });
-      }
-      if (events.length === 2) {
-        events[0].offset = -8;
-        events[1].offset = 8;
-      }
-      return events;
-    });
-  }, [visits]);
+    // Out-of-range is judged on the current visit or the values being entered.
+    const coverage = sexKey && point ? tableCoverage(table, sexKey, point.x) : "covered";
+    return coverage === "covered" ? null : tableCoverageLabels[coverage];
+  };
+  const expandedByHeight =
+    expandedChart?.metric === "weight-for-length" || expandedChart?.metric === "weight-for-height";
+
+  const currentHeightEvaluation = useMemo(
+    () =>
+      currentVisit
+        ? evaluateGrowth(
+            heightTable,
+            sexKey,
+            correctAgeMonths(currentVisit.ageMonths, gestationalAgeDays),
+            currentVisit.height
+          )
+        : null,
+    [heightTable, sexKey, currentVisit, gestationalAgeDays]
+  );
+
+  const currentWeightEvaluation = useMemo(
+    () =>
+      currentVisit
+        ? evaluateGrowth(
+            weightTable,
+            sexKey,
+            correctAgeMonths(currentVisit.ageMonths, gestationalAgeDays),
+            currentVisit.weight
+          )
+        : null,
+    [weightTable, sexKey, currentVisit, gestationalAgeDays]
+  );
+
+  const currentBmiEvaluation = useMemo(
+    () =>
+      currentVisit
+        ? evaluateGrowth(
+            bmiTable,
+            sexKey,
+            correctAgeMonths(currentVisit.ageMonths, gestationalAgeDays),
+            currentVisit.bmi
+          )
+        : null,
+    [bmiTable, sexKey, currentVisit, gestationalAgeDays]
+  );
+
+  const currentHeadEvaluation = useMemo(
+    () =>
+      currentVisit && currentVisit.headCircumference !== null
+        ? evaluateGrowth(
+            headTable,
+            sexKey,
+            correctAgeMonths(currentVisit.ageMonths, gestationalAgeDays),
+            currentVisit.headCircumference
+          )
+        : null,
+    [headTable, sexKey, currentVisit, gestationalAgeDays]
+  );
+
+  const currentWeightForHeightEvaluation = useMemo(
+    () =>
+      currentVisit
+        ? evaluateGrowth(
+            weightForStatureMetric(currentVisit.ageMonths) === "weight-for-length"
+              ? weightForLengthTable
+              : weightForHeightTable,
+            sexKey,
+            currentVisit.height,
+            currentVisit.weight
+          )
+        : null,
+    [weightForLengthTable, weightForHeightTable, sexKey, currentVisit]
+  );
+
+  const injectionEvents = useMemo(
+    () => buildInjectionEvents(visits, gestationalAgeDays),
+    [visits, gestationalAgeDays]
+  );
+
+  const currentAlerts: GrowthAlert[] = currentVisit?.alerts ?? [];
+
+  const pubertyMarks = useMemo(
+    () => buildPubertyMarks(visits, sexKey, gestationalAgeDays),
+    [visits, sexKey, gestationalAgeDays]
+  );
+
+  const pubertyOnset = useMemo(() => findPubertyOnset(visits, sexKey), [visits, sexKey]);
+
+  const treatmentSpans = useMemo(
+    () =>
+      currentPatient
+        ? buildTreatmentSpans(
+            treatments,
+            currentPatient.birthDate,
+            gestationalAgeDays,
+            getTodayInputValue()
+          )
+        : [],
+    [treatments, currentPatient, gestationalAgeDays]
+  );
+
+  const activeTreatments = useMemo(
+    () =>
+      treatments.filter(
+        (treatment) =>
+          isTreatmentActive(treatment, form.visitDate) || treatment.id === form.treatmentId
+      ),
+    [treatments, form.visitDate, form.treatmentId]
+  );
 
-  const openChart = (metric: "height" | "weight", title: string, subtitle: string) => {
+  const openChart = (metric: GrowthMetric, title: string, subtitle: string) => {
     setExpandedChart({ metric, title, subtitle });
   };
 
   const closeChart = () => setExpandedChart(null);
 
-  const mapVisitRows = (rows: VisitRow[]) =>
-    rows.map((row) => ({
-      id: row.id,
-      date: row.created_at,
-      height: toNumber(row.height_cm),
-      weight: toNumber(row.weight_kg),
-      bmi: toNumber(row.bmi),
-      ageMonths: row.age_months,
-      growthInjection: Boolean(row.growth_injection),
-      suppressionInjection: Boolean(row.suppression_injection)
-    }));
-
-  const setVisitStateFromRows = (rows: VisitRow[], focusId?: string) => {
-    const mappedVisits = mapVisitRows(rows);
-    if (!mappedVisits.length) {
+  const setVisitState = (patientVisits: Visit[], focusId?: string) => {
+    if (!patientVisits.length) {
       setVisits([]);
       setCurrentVisit(null);
       setPreviousVisit(null);
       return;
     }
-    const sorted = [...mappedVisits].sort(
+    const sorted = [...patientVisits].sort(
       (a, b) => new Date(a.date).getTime() - new Date(b.date).getTime()
     );
     setVisits(sorted);
@@ -507,14 +766,18 @@ export default function Home() {
     }
     setEditingVisitId(visit.id);
     setForm({
-      name: currentPatient.name,
-      residentId: currentPatient.residentId,
-      chartNo: currentPatient.chartNo ?? "",
+      ...patientFormFields(currentPatient),
       visitDate: toDateInputValue(visit.date),
       growthInjection: visit.growthInjection,
       suppressionInjection: visit.suppressionInjection,
+      treatmentId: visit.treatmentId ?? "",
       height: visit.height.toFixed(1),
-      weight: visit.weight.toFixed(1)
+      weight: visit.weight.toFixed(1),
+      headCircumference:
+        visit.headCircumference !== null ? visit.headCircumference.toFixed(1) : "",
+      tannerBreastGenital: visit.tannerBreastGenital?.toString() ?? "",
+      tannerPubicHair: visit.tannerPubicHair?.toString() ?? "",
+      testicularVolume: visit.testicularVolume?.toString() ?? ""
     });
     setStatus({ message: "방문 기록을 수정합니다.", type: "info" });
   };
@@ -523,287 +786,472 @@ export default function Home() {
     if (!currentPatient || isMutating) {
       return;
     }
-    if (!window.confirm("이 방문 기록을 삭제할까요?")) {
-      return;
-    }
     setDeletingVisitId(visitId);
     try {
-      const { error: deleteError } = await supabase.from("visits").delete().eq("id", visitId);
-      if (deleteError) {
-        throw deleteError;
-      }
-      const { data: visitRows, error: visitRowsError } = await supabase
-        .from("visits")
-        .select(visitSelectFields)
-        .eq("patient_id", currentPatient.id)
-        .order("created_at", { ascending: true });
-      if (visitRowsError) {
-        throw visitRowsError;
-      }
-      setVisitStateFromRows(visitRows ?? []);
+      await requestJson(`/api/visits/${visitId}`, { method: "DELETE" });
+      const { visits: patientVisits } = await requestJson<{ visits: Visit[] }>(
+        `/api/patients/${currentPatient.id}/visits`
+      );
+      setVisitState(patientVisits);
       if (editingVisitId === visitId) {
         setEditingVisitId(null);
       }
       setStatus({ message: "방문 기록이 삭제되었습니다.", type: "success" });
+      setUndo({ kind: "visits", id: visitId, message: "방문 기록을 휴지통으로 옮겼습니다." });
     } catch (error) {
-      setStatus({ message: "삭제 중 오류가 발생했습니다. 잠시 후 다시 시도해주세요.", type: "error" });
+      setStatus({
+        message: errorMessage(error, "삭제 중 오류가 발생했습니다. 잠시 후 다시 시도해주세요."),
+        type: "error"
+      });
     } finally {
       setDeletingVisitId(null);
     }
   };
 
-  const handleResidentChange = (value: string) => {
-    setForm((prev) => ({ ...prev, residentId: value }));
-
-    if (!value.trim()) {
-      setStatus(defaultStatus);
+  const handleDeletePatient = async () => {
+    if (!currentPatient || isMutating) {
       return;
     }
-
-    const parsed = parseResidentId(value, visitDateValue);
-    if (!parsed) {
-      setStatus({ message: "주민등록번호 형식을 확인해주세요.", type: "error" });
+    if (!window.confirm(`${currentPatient.name} 환자와 모든 방문 기록을 삭제할까요?`)) {
       return;
     }
-
-    const label = formatAge(parsed.ageMonths);
-    setStatus({ message: `${label} · ${parsed.ageMonths < 36 ? "36개월 미만" : "36개월 이상"}`, type: "info" });
+    setIsLoading(true);
+    try {
+      await requestJson(`/api/patients/${currentPatient.id}`, { method: "DELETE" });
+      const { id, name } = currentPatient;
+      handleReset();
+      setStatus({ message: `${name} 환자가 삭제되었습니다.`, type: "success" });
+      setUndo({ kind: "patients", id, message: `${name} 환자를 휴지통으로 옮겼습니다.` });
+    } catch (error) {
+      setStatus({
+        message: errorMessage(error, "삭제 중 오류가 발생했습니다. 잠시 후 다시 시도해주세요."),
+        type: "error"
+      });
+    } finally {
+      setIsLoading(false);
+    }
   };
 
-  const handleSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
-    event.preventDefault();
-    if (deletingVisitId) {
+  const closeUndo = useCallback(() => setUndo(null), []);
+
+  const handleExport = (format: ExportFormat) => {
+    if (!currentPatient || !visits.length) {
       return;
     }
+    const sheet = buildGrowthSheet(
+      visits,
+      { height: heightTable, weight: weightTable, bmi: bmiTable },
+      sexKey,
+      gestationalAgeDays
+    );
+    downloadGrowthExport(sheet, exportFileName(currentPatient, format), format);
+  };
 
-    const name = form.name.trim();
-    const residentRaw = form.residentId.trim();
-    const chartNo = form.chartNo.trim();
-    const visitDate = form.visitDate;
-    const growthInjection = form.growthInjection;
-    const suppressionInjection = form.suppressionInjection;
-    const height = Number.parseFloat(form.height);
-    const weight = Number.parseFloat(form.weight);
-
-    if (!name || !residentRaw || !visitDate || Number.isNaN(height) || Number.isNaN(weight)) {
-      setStatus({ message: "모든 필수 항목을 입력해주세요.", type: "error" });
+  const handleReport = async () => {
+    if (!currentPatient || isReporting) {
+      return;
+    }
+    const comment = window.prompt("보고서에 넣을 의사 소견을 입력하세요. (선택)", "");
+    if (comment === null) {
       return;
     }
+    setIsReporting(true);
+    try {
+      const blob = await requestBlob(`/api/patients/${currentPatient.id}/report`, {
+        method: "POST",
+        body: { comment }
+      });
+      downloadBlob(blob, reportFileName(currentPatient));
+    } catch (error) {
+      setStatus({
+        message: errorMessage(error, "보고서를 만들지 못했습니다. 잠시 후 다시 시도해주세요."),
+        type: "error"
+      });
+    } finally {
+      setIsReporting(false);
+    }
+  };
 
-    const visitParsed = parseDateInput(visitDate);
-    if (!visitParsed) {
-      setStatus({ message: "검사일을 확인해주세요.", type: "error" });
+  const handleUndo = async () => {
+    if (!undo) {
       return;
     }
+    setIsUndoing(true);
+    try {
+      await requestJson(`/api/trash/${undo.kind}/${undo.id}`, { method: "POST" });
+      setUndo(null);
+      if (undo.kind === "patients") {
+        await loadPatient(undo.id);
+      } else if (currentPatient) {
+        const { visits: patientVisits } = await requestJson<{ visits: Visit[] }>(
+          `/api/patients/${currentPatient.id}/visits`
+        );
+        setVisitState(patientVisits, undo.id);
+        setStatus({ message: "방문 기록을 복원했습니다.", type: "success" });
+      }
+    } catch (error) {
+      setStatus({
+        message: errorMessage(error, "복원 중 오류가 발생했습니다. 잠시 후 다시 시도해주세요."),
+        type: "error"
+      });
+    } finally {
+      setIsUndoing(false);
+    }
+  };
 
-    const parsed = parseResidentId(residentRaw, visitParsed);
-    if (!parsed) {
-      setStatus({ message: "주민등록번호를 정확히 입력해주세요.", type: "error" });
+  const reloadBoneAges = async (patientId: string) => {
+    const { boneAges: readings } = await requestJson<{ boneAges: BoneAgeReading[] }>(
+      `/api/patients/${patientId}/bone-ages`
+    );
+    setBoneAges(readings);
+  };
+
+  const reloadTreatments = async (patientId: string) => {
+    const { treatments: patientTreatments } = await requestJson<{ treatments: Treatment[] }>(
+      `/api/patients/${patientId}/treatments`
+    );
+    setTreatments(patientTreatments);
+  };
+
+  const loadPatient = async (patientId: string) => {
+    setIsLoading(true);
+    try {
+      const { patient } = await requestJson<{ patient: Patient }>(`/api/patients/${patientId}`);
+      const { visits: patientVisits } = await requestJson<{ visits: Visit[] }>(
+        `/api/patients/${patient.id}/visits`
+      );
+      setCurrentPatient(patient);
+      setGrowthReference(patient.growthReference);
+      setVisitState(patientVisits);
+      await reloadBoneAges(patient.id);
+      await reloadTreatments(patient.id);
+      setEditingVisitId(null);
+      setForm({
+        ...patientFormFields(patient),
+        visitDate: getTodayInputValue(),
+        growthInjection: false,
+        suppressionInjection: false,
+        treatmentId: "",
+        height: "",
+        weight: "",
+        headCircumference: "",
+        tannerBreastGenital: "",
+        tannerPubicHair: "",
+        testicularVolume: ""
+      });
+      setStatus({ message: `${patient.name} 환자의 기록을 불러왔습니다.`, type: "info" });
+    } catch (error) {
+      setStatus({
+        message: errorMessage(error, "환자 정보를 불러오지 못했습니다. 잠시 후 다시 시도해주세요."),
+        type: "error"
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleAddBoneAge = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!currentPatient || isSavingBoneAge) {
       return;
     }
+    const years = Number.parseInt(boneAgeForm.years, 10);
+    const months = Number.parseInt(boneAgeForm.months || "0", 10);
+    if (!Number.isFinite(years) || !Number.isFinite(months) || months < 0 || months > 11) {
+      setStatus({ message: "골연령 촬영일과 나이를 확인해주세요.", type: "error" });
+      return;
+    }
+    setIsSavingBoneAge(true);
+    try {
+      await requestJson(`/api/patients/${currentPatient.id}/bone-ages`, {
+        method: "POST",
+        body: {
+          measuredOn: boneAgeForm.date,
+          boneAgeMonths: years * 12 + months,
+          method: boneAgeForm.method
+        }
+      });
+      await reloadBoneAges(currentPatient.id);
+      setBoneAgeForm((prev) => ({ ...prev, years: "", months: "0" }));
+      setStatus({ message: "골연령 기록이 저장되었습니다.", type: "success" });
+    } catch (error) {
+      setStatus({
+        message: errorMessage(error, "골연령 저장 중 오류가 발생했습니다. 잠시 후 다시 시도해주세요."),
+        type: "error"
+      });
+    } finally {
+      setIsSavingBoneAge(false);
+    }
+  };
 
-    if (!isSupabaseConfigured) {
-      setStatus({ message: "Supabase 환경 변수를 설정해주세요.", type: "error" });
+  const handleDeleteBoneAge = async (boneAgeId: string) => {
+    if (!currentPatient || isSavingBoneAge) {
+      return;
+    }
+    if (!window.confirm("이 골연령 기록을 삭제할까요?")) {
       return;
     }
+    setIsSavingBoneAge(true);
+    try {
+      await requestJson(`/api/bone-ages/${boneAgeId}`, { method: "DELETE" });
+      await reloadBoneAges(currentPatient.id);
+      setStatus({ message: "골연령 기록이 삭제되었습니다.", type: "success" });
+    } catch (error) {
+      setStatus({
+        message: errorMessage(error, "삭제 중 오류가 발생했습니다. 잠시 후 다시 시도해주세요."),
+        type: "error"
+      });
+    } finally {
+      setIsSavingBoneAge(false);
+    }
+  };
 
-    setIsLoading(true);
+  const handleTreatmentDrugChange = (drug: TreatmentDrug) => {
+    setTreatmentForm((prev) => ({ ...prev, drug, ...defaultTreatmentSettings[drug] }));
+  };
 
+  const handleAddTreatment = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!currentPatient || isSavingTreatment) {
+      return;
+    }
+    const body: TreatmentInput = {
+      drug: treatmentForm.drug,
+      dose: Number.parseFloat(treatmentForm.dose),
+      unit: treatmentForm.unit,
+      frequency: treatmentForm.frequency,
+      startedOn: treatmentForm.startedOn,
+      stoppedOn: null,
+      lotNumber: treatmentForm.lotNumber.trim() || null
+    };
+    setIsSavingTreatment(true);
     try {
-      const residentId = normalizeResidentId(residentRaw);
+      await requestJson(`/api/patients/${currentPatient.id}/treatments`, { method: "POST", body });
+      await reloadTreatments(currentPatient.id);
+      setTreatmentForm((prev) => ({ ...prev, dose: "", lotNumber: "" }));
+      setStatus({ message: "투여 요법이 저장되었습니다.", type: "success" });
+    } catch (error) {
+      setStatus({
+        message: errorMessage(error, "투여 요법 저장 중 오류가 발생했습니다. 잠시 후 다시 시도해주세요."),
+        type: "error"
+      });
+    } finally {
+      setIsSavingTreatment(false);
+    }
+  };
 
-      let patientRow: {
-        id: string;
-        name: string;
-        resident_id: string;
-        chart_no: string | null;
-      } | null = null;
-      let matchType: "resident" | "chart" | null = null;
+  const handleStopTreatment = async (treatment: Treatment) => {
+    if (!currentPatient || isSavingTreatment) {
+      return;
+    }
+    const stoppedOn = window.prompt(
+      "투여 종료일을 입력해주세요. (YYYY-MM-DD)",
+      getTodayInputValue()
+    );
+    if (!stoppedOn) {
+      return;
+    }
+    setIsSavingTreatment(true);
+    try {
+      const body: TreatmentInput = { ...treatment, stoppedOn: stoppedOn.trim() };
+      await requestJson(`/api/treatments/${treatment.id}`, { method: "PATCH", body });
+      await reloadTreatments(currentPatient.id);
+      setStatus({ message: "투여 종료일이 기록되었습니다.", type: "success" });
+    } catch (error) {
+      setStatus({
+        message: errorMessage(error, "저장 중 오류가 발생했습니다. 잠시 후 다시 시도해주세요."),
+        type: "error"
+      });
+    } finally {
+      setIsSavingTreatment(false);
+    }
+  };
 
-      if (editingVisitId) {
-        if (!currentPatient) {
-          throw new Error("No active patient");
-        }
-        patientRow = {
-          id: currentPatient.id,
-          name: currentPatient.name,
-          resident_id: currentPatient.residentId,
-          chart_no: currentPatient.chartNo
-        };
-
-        const updates: { name?: string; resident_id?: string; chart_no?: string | null } = {};
-        if (name && patientRow.name !== name) {
-          updates.name = name;
-        }
-        if (residentId && normalizeResidentId(patientRow.resident_id) !== residentId) {
-          updates.resident_id = residentId;
-        }
-        const chartValue = chartNo || null;
-        if (patientRow.chart_no !== chartValue) {
-          updates.chart_no = chartValue;
-        }
+  const handleDeleteTreatment = async (treatmentId: string) => {
+    if (!currentPatient || isSavingTreatment) {
+      return;
+    }
+    if (!window.confirm("이 투여 요법을 삭제할까요? 연결된 방문 기록의 요법 선택이 해제됩니다.")) {
+      return;
+    }
+    setIsSavingTreatment(true);
+    try {
+      await requestJson(`/api/treatments/${treatmentId}`, { method: "DELETE" });
+      await reloadTreatments(currentPatient.id);
+      setStatus({ message: "투여 요법이 삭제되었습니다.", type: "success" });
+    } catch (error) {
+      setStatus({
+        message: errorMessage(error, "삭제 중 오류가 발생했습니다. 잠시 후 다시 시도해주세요."),
+        type: "error"
+      });
+    } finally {
+      setIsSavingTreatment(false);
+    }
+  };
 
-        if (Object.keys(updates).length) {
-          const { data: updatedPatient, error: updateError } = await supabase
-            .from("patients")
-            .update(updates)
-            .eq("id", patientRow.id)
-            .select("id, name, resident_id, chart_no")
-            .single();
+  const handleGrowthReferenceChange = async (value: string) => {
+    if (!isGrowthReference(value)) {
+      return;
+    }
+    setGrowthReference(value);
+    if (!currentPatient) {
+      return;
+    }
+    try {
+      const body: PatientPayload = {
+        name: currentPatient.name,
+        chartNo: currentPatient.chartNo,
+        fatherHeight: currentPatient.fatherHeight,
+        motherHeight: currentPatient.motherHeight,
+        gestationalAgeDays: currentPatient.gestationalAgeDays,
+        growthReference: value
+      };
+      const { patient } = await requestJson<{ patient: Patient }>(
+        `/api/patients/${currentPatient.id}`,
+        { method: "PATCH", body }
+      );
+      setCurrentPatient(patient);
+      setStatus({
+        message: `성장 기준을 ${growthReferenceLabels[value]}(으)로 변경했습니다.`,
+        type: "success"
+      });
+    } catch (error) {
+      setGrowthReference(currentPatient.growthReference);
+      setStatus({
+        message: errorMessage(error, "저장 중 오류가 발생했습니다. 잠시 후 다시 시도해주세요."),
+        type: "error"
+      });
+    }
+  };
 
-          if (updateError || !updatedPatient) {
-            throw updateError;
-          }
+  const handleResidentChange = (value: string) => {
+    setForm((prev) => ({ ...prev, residentId: value }));
 
-          patientRow = updatedPatient;
-        }
-      } else {
-        const { data: residentMatch, error: residentError } = await supabase
-          .from("patients")
-          .select("id, name, resident_id, chart_no")
-          .eq("resident_id", residentId)
-          .maybeSingle();
-
-        if (residentError) {
-          throw residentError;
-        }
+    if (!value.trim()) {
+      setStatus(defaultStatus);
+      return;
+    }
 
-        patientRow = residentMatch;
-        matchType = residentMatch ? "resident" : null;
+    const parsed = parseResidentId(value, visitDateValue);
+    if (!parsed) {
+      setStatus({ message: "주민등록번호 형식을 확인해주세요.", type: "error" });
+      return;
+    }
 
-        if (!patientRow && chartNo) {
-          const { data: chartMatch, error: chartError } = await supabase
-            .from("patients")
-            .select("id, name, resident_id, chart_no")
-            .eq("chart_no", chartNo)
-            .maybeSingle();
+    const label = formatAge(parsed.ageMonths);
+    setStatus({ message: `${label} · ${parsed.ageMonths < 36 ? "36개월 미만" : "36개월 이상"}`, type: "info" });
+  };
 
-          if (chartError) {
-            throw chartError;
-          }
+  const handleSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (deletingVisitId) {
+      return;
+    }
 
-          if (chartMatch) {
-            patientRow = chartMatch;
-            matchType = "chart";
-          }
-        }
+    const gestationalAge = parseGestationalAge(form.gestationalWeeks, form.gestationalDays);
+    if (gestationalAge !== null && Number.isNaN(gestationalAge)) {
+      setStatus({ message: "재태주수를 확인해주세요. (22주–46주)", type: "error" });
+      return;
+    }
 
-        if (!patientRow) {
-          const { data: createdPatient, error: insertError } = await supabase
-            .from("patients")
-            .insert({ name, resident_id: residentId, chart_no: chartNo || null })
-            .select("id, name, resident_id, chart_no")
-            .single();
-
-          if (insertError || !createdPatient) {
-            throw insertError;
-          }
-
-          patientRow = createdPatient;
-        } else {
-          const updates: { name?: string; chart_no?: string | null } = {};
-          if (name && patientRow.name !== name) {
-            updates.name = name;
-          }
-          if (chartNo && patientRow.chart_no !== chartNo) {
-            updates.chart_no = chartNo;
-          }
-
-          if (Object.keys(updates).length) {
-            const { data: updatedPatient, error: updateError } = await supabase
-              .from("patients")
-              .update(updates)
-              .eq("id", patientRow.id)
-              .select("id, name, resident_id, chart_no")
-              .single();
-
-            if (updateError || !updatedPatient) {
-              throw updateError;
-            }
-
-            patientRow = updatedPatient;
-          }
-        }
-      }
+    const residentId = normalizeResidentId(form.residentId);
+    const patientInput: PatientPayload = {
+      name: form.name.trim(),
+      residentId: residentId || undefined,
+      chartNo: form.chartNo.trim() || null,
+      fatherHeight: form.fatherHeight.trim() ? Number.parseFloat(form.fatherHeight) : null,
+      motherHeight: form.motherHeight.trim() ? Number.parseFloat(form.motherHeight) : null,
+      gestationalAgeDays: gestationalAge,
+      growthReference: canSetGrowthReference ? growthReference : undefined
+    };
+    const visitInput: VisitInput = {
+      visitDate: form.visitDate,
+      height: Number.parseFloat(form.height),
+      weight: Number.parseFloat(form.weight),
+      headCircumference: form.headCircumference.trim()
+        ? Number.parseFloat(form.headCircumference)
+        : null,
+      growthInjection: form.growthInjection,
+      suppressionInjection: form.suppressionInjection,
+      treatmentId: form.treatmentId || null,
+      tannerBreastGenital: form.tannerBreastGenital ? Number(form.tannerBreastGenital) : null,
+      tannerPubicHair: form.tannerPubicHair ? Number(form.tannerPubicHair) : null,
+      testicularVolume: form.testicularVolume.trim()
+        ? Number.parseFloat(form.testicularVolume)
+        : null
+    };
 
-      if (!patientRow) {
-        throw new Error("Patient not found");
-      }
+    setIsLoading(true);
 
-      const bmi = weight / Math.pow(height / 100, 2);
-      const visitTimestamp = toVisitTimestamp(visitDate);
-      if (!visitTimestamp) {
-        throw new Error("Invalid visit date");
-      }
+    try {
+      let patient: Patient;
+      let matchType: PatientMatch = null;
+      let savedVisit: Visit;
 
-      let savedVisitId: string | null = null;
       if (editingVisitId) {
-        const { data: updatedVisit, error: updateVisitError } = await supabase
-          .from("visits")
-          .update({
-            height_cm: height,
-            weight_kg: weight,
-            bmi,
-            age_months: parsed.ageMonths,
-            growth_injection: growthInjection,
-            suppression_injection: suppressionInjection,
-            created_at: visitTimestamp
-          })
-          .eq("id", editingVisitId)
-          .select(visitSelectFields)
-          .single();
-
-        if (updateVisitError || !updatedVisit) {
-          throw updateVisitError;
+        if (!currentPatient) {
+          throw new Error("No active patient");
         }
-        savedVisitId = updatedVisit.id;
+        ({ patient } = await requestJson<{ patient: Patient }>(
+          `/api/patients/${currentPatient.id}`,
+          { method: "PATCH", body: patientInput }
+        ));
+        ({ visit: savedVisit } = await requestJson<{ visit: Visit }>(
+          `/api/visits/${editingVisitId}`,
+          { method: "PATCH", body: visitInput }
+        ));
+      } else if (!residentId && currentPatient) {
+        ({ patient } = await requestJson<{ patient: Patient }>(
+          `/api/patients/${currentPatient.id}`,
+          { method: "PATCH", body: patientInput }
+        ));
+        ({ visit: savedVisit } = await requestJson<{ visit: Visit }>(
+          `/api/patients/${patient.id}/visits`,
+          { method: "POST", body: visitInput }
+        ));
       } else {
-        const { data: newVisit, error: visitError } = await supabase
-          .from("visits")
-          .insert({
-            patient_id: patientRow.id,
-            height_cm: height,
-            weight_kg: weight,
-            bmi,
-            age_months: parsed.ageMonths,
-            growth_injection: growthInjection,
-            suppression_injection: suppressionInjection,
-            created_at: visitTimestamp
-          })
-          .select(visitSelectFields)
-          .single();
-
-        if (visitError || !newVisit) {
-          throw visitError;
-        }
-        savedVisitId = newVisit.id;
-      }
-
-      const { data: visitRows, error: visitRowsError } = await supabase
-        .from("visits")
-        .select(visitSelectFields)
-        .eq("patient_id", patientRow.id)
-        .order("created_at", { ascending: true });
-
-      if (visitRowsError) {
-        throw visitRowsError;
+        ({ patient, matchType } = await requestJson<{ patient: Patient; matchType: PatientMatch }>(
+          "/api/patients",
+          { method: "POST", body: patientInput }
+        ));
+        ({ visit: savedVisit } = await requestJson<{ visit: Visit }>(
+          `/api/patients/${patient.id}/visits`,
+          { method: "POST", body: visitInput }
+        ));
       }
 
-      const mappedPatient: Patient = {
-        id: patientRow.id,
-        name: patientRow.name,
-        residentId: patientRow.resident_id,
-        chartNo: patientRow.chart_no
-      };
+      const { visits: patientVisits } = await requestJson<{ visits: Visit[] }>(
+        `/api/patients/${patient.id}/visits`
+      );
 
-      setCurrentPatient(mappedPatient);
-      setVisitStateFromRows(visitRows ?? [], savedVisitId ?? undefined);
+      setCurrentPatient(patient);
+      setGrowthReference(patient.growthReference);
+      setVisitState(patientVisits, savedVisit.id);
+      await reloadBoneAges(patient.id);
+      await reloadTreatments(patient.id);
+      setForm((prev) => ({ ...prev, residentId: "" }));
 
-      if (matchType === "chart" && patientRow.resident_id !== residentId) {
+      const onset = findPubertyOnset(patientVisits, patient.sex);
+      const savedAlerts = savedVisit.alerts;
+      if (matchType === "chart") {
         setStatus({
           message: "차트번호가 기존 환자와 연결됩니다. 주민등록번호를 확인해주세요.",
           type: "warn"
         });
+      } else if (onset?.early && onset.visit.id === savedVisit.id) {
+        setStatus({
+          message: `성장 기록이 저장되었습니다. 사춘기 조기 발현 기준(${
+            patient.sex === "1" ? "남아 9세" : "여아 8세"
+          } 이전)에 해당합니다.`,
+          type: "warn"
+        });
+      } else if (savedAlerts.length) {
+        setStatus({
+          message: `${
+            editingVisitId ? "방문 기록이 수정되었습니다." : "성장 기록이 저장되었습니다."
+          } 성장 알림 ${savedAlerts.length}건을 확인해주세요.`,
+          type: "warn"
+        });
       } else {
         setStatus({
           message: editingVisitId ? "방문 기록이 수정되었습니다." : "성장 기록이 저장되었습니다.",
@@ -814,7 +1262,10 @@ export default function Home() {
         setEditingVisitId(null);
       }
     } catch (error) {
-      setStatus({ message: "저장 중 오류가 발생했습니다. 잠시 후 다시 시도해주세요.", type: "error" });
+      setStatus({
+        message: errorMessage(error, "저장 중 오류가 발생했습니다. 잠시 후 다시 시도해주세요."),
+        type: "error"
+      });
     } finally {
       setIsLoading(false);
     }
@@ -825,14 +1276,28 @@ export default function Home() {
       name: "",
       residentId: "",
       chartNo: "",
+      fatherHeight: "",
+      motherHeight: "",
+      gestationalWeeks: "",
+      gestationalDays: "",
       visitDate: getTodayInputValue(),
       growthInjection: false,
       suppressionInjection: false,
+      treatmentId: "",
       height: "",
-      weight: ""
+      weight: "",
+      headCircumference: "",
+      tannerBreastGenital: "",
+      tannerPubicHair: "",
+      testicularVolume: ""
     });
     setStatus(defaultStatus);
     setEditingVisitId(null);
+    setCurrentPatient(null);
+    setGrowthReference(DEFAULT_GROWTH_REFERENCE);
+    setVisitState([]);
+    setBoneAges([]);
+    setTreatments([]);
   };
 
   return (
@@ -845,13 +1310,49 @@ export default function Home() {
             방문 기록을 기반으로 현재 성장상태와 지난 방문 대비 변화량을 확인합니다.
           </p>
         </div>
-        <button
-          type="button"
-          onClick={() => window.print()}
-          className="no-print rounded-full border border-outline px-5 py-2 text-sm font-medium text-ink transition hover:-translate-y-0.5"
-        >
-          출력
-        </button>
+        <div className="no-print flex items-center gap-2">
+          <Link
+            href="/patients"
+            className="rounded-full border border-outline px-5 py-2 text-sm font-medium text-ink transition hover:-translate-y-0.5"
+          >
+            환자 목록
+          </Link>
+          {currentPatient && (
+            <Link
+              href={`/patients/${currentPatient.id}/history`}
+              className="rounded-full border border-outline px-5 py-2 text-sm font-medium text-ink transition hover:-translate-y-0.5"
+            >
+              변경 이력
+            </Link>
+          )}
+          {currentPatient && canDeleteRecords && (
+            <button
+              type="button"
+              onClick={handleDeletePatient}
+              disabled={isMutating}
+              className="rounded-full border border-outline px-5 py-2 text-sm font-medium text-ink transition hover:-translate-y-0.5 hover:text-rose-600 disabled:cursor-not-allowed disabled:opacity-50"
+            >
+              환자 삭제
+            </button>
+          )}
+          {currentPatient && (
+            <button
+              type="button"
+              onClick={handleReport}
+              disabled={isReporting}
+              className="rounded-full border border-outline px-5 py-2 text-sm font-medium text-ink transition hover:-translate-y-0.5 disabled:cursor-not-allowed disabled:opacity-50"
+            >
+              {isReporting ? "보고서 생성 중..." : "PDF 보고서"}
+            </button>
+          )}
+          <button
+            type="button"
+            onClick={() => window.print()}
+            className="rounded-full border border-outline px-5 py-2 text-sm font-medium text-ink transition hover:-translate-y-0.5"
+          >
+            출력
+          </button>
+        </div>
       </header>
 
       <main className="mt-10 grid grid-cols-1 gap-6 lg:grid-cols-12">
@@ -874,10 +1375,14 @@ export default function Home() {
                 <input
                   value={form.residentId}
                   onChange={(event) => handleResidentChange(event.target.value)}
-                  required
+                  required={!currentPatient}
                   inputMode="numeric"
                   className="mt-2 w-full rounded-xl border border-outline bg-white/80 px-3 py-2 text-base text-ink outline-none focus:border-accent2"
-                  placeholder="YYMMDD-XXXXXXX"
+                  placeholder={
+                    currentPatient
+                      ? `${formatBirthSex(currentPatient.birthDate, currentPatient.sex)} (변경 시 입력)`
+                      : "YYMMDD-XXXXXXX"
+                  }
                 />
               </label>
               <label className="text-sm text-muted">
@@ -936,45 +1441,180 @@ export default function Home() {
                   placeholder="15.2"
                 />
               </label>
-              <div className="sm:col-span-2">
-                <span className="text-sm text-muted">주사 기록</span>
-                <div className="mt-2 flex flex-wrap gap-4 text-sm text-ink">
-                  <label className="flex items-center gap-2">
-                    <input
-                      type="checkbox"
-                      checked={form.growthInjection}
-                      onChange={(event) =>
-                        setForm((prev) => ({ ...prev, growthInjection: event.target.checked }))
-                      }
-                      className="h-4 w-4 accent-accent2"
-                    />
-                    성장주사
-                  </label>
-                  <label className="flex items-center gap-2">
-                    <input
-                      type="checkbox"
-                      checked={form.suppressionInjection}
-                      onChange={(event) =>
-                        setForm((prev) => ({ ...prev, suppressionInjection: event.target.checked }))
-                      }
-                      className="h-4 w-4 accent-accent"
-                    />
-                    억제주사
-                  </label>
-                </div>
-              </div>
+              <label className="text-sm text-muted">
+                머리둘레 (cm, 선택)
+                <input
+                  type="number"
+                  min="20"
+                  max="70"
+                  step="0.1"
+                  value={form.headCircumference}
+                  onChange={(event) =>
+                    setForm((prev) => ({ ...prev, headCircumference: event.target.value }))
+                  }
+                  className="mt-2 w-full rounded-xl border border-outline bg-white/80 px-3 py-2 text-base text-ink outline-none focus:border-accent2"
+                  placeholder="45.0"
+                />
+              </label>
+              <label className="text-sm text-muted">
+                태너 단계 · {breastGenitalLabel(sexKey)} (선택)
+                <select
+                  value={form.tannerBreastGenital}
+                  onChange={(event) =>
+                    setForm((prev) => ({ ...prev, tannerBreastGenital: event.target.value }))
+                  }
+                  className="mt-2 w-full rounded-xl border border-outline bg-white/80 px-3 py-2 text-base text-ink outline-none focus:border-accent2"
+                >
+                  <option value="">—</option>
+                  {TANNER_STAGES.map((stage) => (
+                    <option key={stage} value={stage}>
+                      {sexKey === "1" ? "G" : "B"}
+                      {stage}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="text-sm text-muted">
+                태너 단계 · 음모 (선택)
+                <select
+                  value={form.tannerPubicHair}
+                  onChange={(event) =>
+                    setForm((prev) => ({ ...prev, tannerPubicHair: event.target.value }))
+                  }
+                  className="mt-2 w-full rounded-xl border border-outline bg-white/80 px-3 py-2 text-base text-ink outline-none focus:border-accent2"
+                >
+                  <option value="">—</option>
+                  {TANNER_STAGES.map((stage) => (
+                    <option key={stage} value={stage}>
+                      P{stage}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              {sexKey !== "2" && (
+                <label className="text-sm text-muted">
+                  고환 용적 (mL, 선택)
+                  <input
+                    type="number"
+                    min="1"
+                    max={MAX_TESTICULAR_VOLUME_ML}
+                    step="1"
+                    value={form.testicularVolume}
+                    onChange={(event) =>
+                      setForm((prev) => ({ ...prev, testicularVolume: event.target.value }))
+                    }
+                    className="mt-2 w-full rounded-xl border border-outline bg-white/80 px-3 py-2 text-base text-ink outline-none focus:border-accent2"
+                    placeholder="4"
+                  />
+                </label>
+              )}
+              <label className="text-sm text-muted">
+                아버지 키 (cm, 선택)
+                <input
+                  type="number"
+                  min="120"
+                  max="230"
+                  step="0.1"
+                  value={form.fatherHeight}
+                  onChange={(event) => setForm((prev) => ({ ...prev, fatherHeight: event.target.value }))}
+                  className="mt-2 w-full rounded-xl border border-outline bg-white/80 px-3 py-2 text-base text-ink outline-none focus:border-accent2"
+                  placeholder="174.0"
+                />
+              </label>
+              <label className="text-sm text-muted">
+                어머니 키 (cm, 선택)
+                <input
+                  type="number"
+                  min="120"
+                  max="230"
+                  step="0.1"
+                  value={form.motherHeight}
+                  onChange={(event) => setForm((prev) => ({ ...prev, motherHeight: event.target.value }))}
+                  className="mt-2 w-full rounded-xl border border-outline bg-white/80 px-3 py-2 text-base text-ink outline-none focus:border-accent2"
+                  placeholder="161.0"
+                />
+              </label>
+              <label className="text-sm text-muted">
+                재태주수 (주, 선택)
+                <input
+                  type="number"
+                  min="22"
+                  max="46"
+                  step="1"
+                  value={form.gestationalWeeks}
+                  onChange={(event) =>
+                    setForm((prev) => ({ ...prev, gestationalWeeks: event.target.value }))
+                  }
+                  className="mt-2 w-full rounded-xl border border-outline bg-white/80 px-3 py-2 text-base text-ink outline-none focus:border-accent2"
+                  placeholder="40"
+                />
+              </label>
+              <label className="text-sm text-muted">
+                재태주수 (일)
+                <input
+                  type="number"
+                  min="0"
+                  max="6"
+                  step="1"
+                  value={form.gestationalDays}
+                  onChange={(event) =>
+                    setForm((prev) => ({ ...prev, gestationalDays: event.target.value }))
+                  }
+                  className="mt-2 w-full rounded-xl border border-outline bg-white/80 px-3 py-2 text-base text-ink outline-none focus:border-accent2"
+                  placeholder="0"
+                />
+              </label>
+              <label className="text-sm text-muted sm:col-span-2">
+                투여 요법{!canSetInjections && " (의사만 기록)"}
+                <select
+                  value={form.treatmentId}
+                  disabled={!canSetInjections}
+                  onChange={(event) =>
+                    setForm((prev) => ({
+                      ...prev,
+                      treatmentId: event.target.value,
+                      growthInjection: false,
+                      suppressionInjection: false
+                    }))
+                  }
+                  className="mt-2 w-full rounded-xl border border-outline bg-white/80 px-3 py-2 text-base text-ink outline-none focus:border-accent2 disabled:opacity-70"
+                >
+                  <option value="">없음</option>
+                  {activeTreatments.map((treatment) => (
+                    <option key={treatment.id} value={treatment.id}>
+                      {formatTreatment(treatment)} ({formatTreatmentPeriod(treatment)})
+                    </option>
+                  ))}
+                </select>
+                {!form.treatmentId && (form.growthInjection || form.suppressionInjection) && (
+                  <span className="mt-2 block text-xs text-muted">
+                    기존 주사 기록:{" "}
+                    {[
+                      form.growthInjection ? "성장주사" : null,
+                      form.suppressionInjection ? "억제주사" : null
+                    ]
+                      .filter(Boolean)
+                      .join(", ")}{" "}
+                    · 요법을 선택하면 대체됩니다.
+                  </span>
+                )}
+              </label>
             </div>
 
             <div className={`rounded-2xl px-4 py-3 text-sm ${statusStyles[status.type]}`}>
               {status.message}
+              {currentAlerts.length > 0 && (
+                <ul className="mt-2 grid gap-1 text-xs text-amber-800">
+                  {currentAlerts.map((alert) => (
+                    <li key={alert.rule}>
+                      <strong className="font-semibold">{growthAlertLabels[alert.rule]}</strong> ·{" "}
+                      {alert.message}
+                    </li>
+                  ))}
+                </ul>
+              )}
             </div>
 
-            {!isSupabaseConfigured && (
-              <div className="text-xs text-red-600">
-                Supabase 환경 변수가 필요합니다. `.env.local`을 설정해주세요.
-              </div>
-            )}
-
             <div className="flex flex-wrap gap-3">
               <button
                 type="submit"
@@ -1000,17 +1640,100 @@ export default function Home() {
             <div className="mt-5 grid gap-4 sm:grid-cols-2">
               {[
                 { label: "환자명", value: currentPatient.name },
-                { label: "나이", value: formatAge(currentVisit.ageMonths) },
-                { label: "키", value: `${currentVisit.height.toFixed(1)} cm` },
-                { label: "몸무게", value: `${currentVisit.weight.toFixed(1)} kg` },
-                { label: "BMI(참고)", value: `${currentVisit.bmi.toFixed(1)} · ${bmiStatus(currentVisit.bmi)}` },
+                {
+                  label: "나이",
+                  value: formatAge(currentVisit.ageMonths),
+                  detail:
+                    currentPatient.gestationalAgeDays !== null
+                      ? `재태 ${formatGestationalAge(currentPatient.gestationalAgeDays)}${
+                          plotAge(currentVisit.ageMonths) !== currentVisit.ageMonths
+                            ? ` · 교정연령 ${formatAge(plotAge(currentVisit.ageMonths))}`
+                            : ""
+                        }`
+                      : undefined
+                },
+                {
+                  label: "키",
+                  value: `${currentVisit.height.toFixed(1)} cm`,
+                  detail: `키 ${formatEvaluation(currentHeightEvaluation)}`
+                },
+                {
+                  label: "몸무게",
+                  value: `${currentVisit.weight.toFixed(1)} kg`,
+                  detail: `몸무게 ${formatEvaluation(currentWeightEvaluation)}`
+                },
+                ...(currentVisit.headCircumference !== null
+                  ? [
+                      {
+                        label: "머리둘레",
+                        value: `${currentVisit.headCircumference.toFixed(1)} cm`,
+                        detail: `머리둘레 ${formatEvaluation(currentHeadEvaluation)}`
+                      }
+                    ]
+                  : []),
+                ...(hasPubertyStaging(currentVisit) || pubertyOnset
+                  ? [
+                      {
+                        label: "사춘기 단계 (Tanner)",
+                        value: hasPubertyStaging(currentVisit)
+                          ? formatTannerStage(currentVisit, sexKey)
+                          : "—",
+                        detail: pubertyOnset
+                          ? formatPubertyOnset(pubertyOnset)
+                          : "사춘기 발현 소견 없음"
+                      }
+                    ]
+                  : []),
+                {
+                  label: "신장별 체중",
+                  value: formatEvaluation(currentWeightForHeightEvaluation)
+                },
+                ...(midParentalHeight
+                  ? [
+                      {
+                        label: "유전적 목표키",
+                        value: `${midParentalHeight.target.toFixed(1)} cm`,
+                        detail: `${midParentalHeight.min.toFixed(1)}–${midParentalHeight.max.toFixed(
+                          1
+                        )} cm · ${formatEvaluation(targetHeightEvaluation)}`
+                      }
+                    ]
+                  : []),
+                ...(adultHeightPrediction
+                  ? [
+                      {
+                        label: "예상 성인키 (Bayley-Pinneau)",
+                        value: `${adultHeightPrediction.predictedHeight.toFixed(1)} cm`,
+                        detail: `골연령 ${formatAge(adultHeightPrediction.boneAgeMonths)} (${
+                          boneAgeMethodLabels[adultHeightPrediction.reading.method]
+                        }) · 역연령 대비 ${adultHeightPrediction.advancementMonths >= 0 ? "+" : ""}${(
+                          adultHeightPrediction.advancementMonths / 12
+                        ).toFixed(1)}년${
+                          adultHeightPrediction.outsideAverageTable ? " · 평균표 적용 범위 초과" : ""
+                        }`
+                      }
+                    ]
+                  : []),
+                {
+                  label: "BMI",
+                  value: `${currentVisit.bmi.toFixed(1)} · ${bmiStatus(currentBmiEvaluation)}`,
+                  detail: currentBmiEvaluation
+                    ? `BMI ${formatEvaluation(currentBmiEvaluation)}`
+                    : bmiTable
+                    ? "BMI 기준 범위 밖"
+                    : "BMI 기준표 없음"
+                },
                 { label: "구분", value: currentVisit.ageMonths < 36 ? "36개월 미만" : "36개월 이상" },
                 { label: "차트번호", value: currentPatient.chartNo || "—" },
-                { label: "주민등록번호", value: maskResidentId(currentPatient.residentId) }
-              ].map((item) => (
+                {
+                  label: "생년월일",
+                  value: formatBirthSex(currentPatient.birthDate, currentPatient.sex)
+                }
+              ].map((item: { label: string; value: string; detail?: string }) => (
                 <div key={item.label} className="rounded-2xl border border-outline/60 bg-white/70 p-4">
                   <span className="text-xs text-muted">{item.label}</span>
                   <strong className="mt-1 block text-lg text-ink">{item.value}</strong>
+                  {item.detail && <span className="mt-1 block text-xs text-muted">{item.detail}</span>}
                 </div>
               ))}
             </div>
@@ -1044,10 +1767,20 @@ export default function Home() {
                     label: "경과 일수",
                     value: `${diffDays(previousVisit.date, currentVisit.date)}일`,
                     trend: "neutral"
+                  },
+                  {
+                    label: "연간 성장속도",
+                    value: currentVelocity
+                      ? `${currentVelocity.velocity.toFixed(1)} cm/년`
+                      : "—",
+                    trend: "neutral",
+                    detail: currentVelocity
+                      ? `${currentVelocity.intervalDays}일 간격`
+                      : "4개월 이상 간격의 방문이 필요합니다."
                   }
                 ];
 
-                return items.map((item) => (
+                return items.map((item: { label: string; value: string; trend: string; detail?: string }) => (
                   <div key={item.label} className="rounded-2xl border border-outline/60 bg-white/70 p-4">
                     <span className="text-xs text-muted">{item.label}</span>
                     <strong
@@ -1061,9 +1794,26 @@ export default function Home() {
                     >
                       {item.value}
                     </strong>
+                    {item.detail && <span className="mt-1 block text-xs text-muted">{item.detail}</span>}
                   </div>
                 ));
               })()}
+              {velocityBaselineOptions.length > 1 && (
+                <label className="text-sm text-muted sm:col-span-2">
+                  성장속도 기준 방문
+                  <select
+                    value={currentVelocity?.fromId ?? ""}
+                    onChange={(event) => setVelocityBaselineId(event.target.value)}
+                    className="mt-2 w-full rounded-xl border border-outline bg-white/80 px-3 py-2 text-base text-ink outline-none focus:border-accent2"
+                  >
+                    {velocityBaselineOptions.map((visit) => (
+                      <option key={visit.id} value={visit.id}>
+                        {formatDate(visit.date)} · 키 {visit.height.toFixed(1)}cm
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              )}
             </div>
           ) : (
             <p className="mt-4 text-sm text-muted">
@@ -1073,7 +1823,30 @@ export default function Home() {
         </section>
 
         <section className="card frost animate-[rise_1.15s_ease] p-6 lg:col-span-7">
-          <h2 className="text-xl font-semibold">성장 차트</h2>
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <h2 className="text-xl font-semibold">성장 차트</h2>
+            <label className="no-print flex items-center gap-2 text-sm text-muted">
+              성장 기준
+              <select
+                value={growthReference}
+                onChange={(event) => handleGrowthReferenceChange(event.target.value)}
+                disabled={!canSetGrowthReference}
+                title={canSetGrowthReference ? undefined : "의사 또는 관리자만 변경할 수 있습니다."}
+                className="rounded-xl border border-outline bg-white/80 px-3 py-1.5 text-sm text-ink outline-none focus:border-accent2 disabled:cursor-not-allowed disabled:opacity-60"
+              >
+                {Object.entries(growthReferenceLabels).map(([value, label]) => {
+                  const unavailable =
+                    availableReferences !== null &&
+                    !availableReferences.includes(value as GrowthReference);
+                  return (
+                    <option key={value} value={value} disabled={unavailable}>
+                      {unavailable ? `${label} (기준표 없음)` : label}
+                    </option>
+                  );
+                })}
+              </select>
+            </label>
+          </div>
           {!hasAgeInfo && (
             <p className="mt-4 text-sm text-muted">
               입력값을 저장하면 나이에 맞는 차트가 표시됩니다.
@@ -1089,7 +1862,12 @@ export default function Home() {
               <div
                 className={`rounded-2xl border border-outline/60 bg-white/70 p-4 ${chartPulseClass}`}
               >
-                <div className="text-sm text-muted">키 (cm)</div>
+                <div className="flex items-center justify-between gap-2 text-sm text-muted">
+                  <span>키 (cm)</span>
+                  {chartNotice("height") && (
+                    <span className="text-xs text-amber-800">{chartNotice("height")}</span>
+                  )}
+                </div>
                 <button
                   type="button"
                   onClick={() =>
@@ -1104,10 +1882,14 @@ export default function Home() {
                     values={heightValues}
                     labels={chartLabels}
                     xValues={visitAges}
-                    xRange={ageRange ?? undefined}
+                    xRange={heightAgeRange ?? undefined}
                     referenceCurves={heightCurves}
                     highlightPoint={previewHeightPoint}
+                    targetRange={heightTargetRange}
+                    boneAgePoints={boneAgePoints}
+                    pubertyMarks={pubertyMarks}
                     events={injectionEvents}
+                    treatmentSpans={treatmentSpans}
                     xLabelFormatter={chartAgeFormatter}
                     className="h-[220px] w-full sm:h-[240px]"
                   />
@@ -1116,7 +1898,12 @@ export default function Home() {
               <div
                 className={`rounded-2xl border border-outline/60 bg-white/70 p-4 ${chartPulseClass}`}
               >
-                <div className="text-sm text-muted">몸무게 (kg)</div>
+                <div className="flex items-center justify-between gap-2 text-sm text-muted">
+                  <span>몸무게 (kg)</span>
+                  {chartNotice("weight") && (
+                    <span className="text-xs text-amber-800">{chartNotice("weight")}</span>
+                  )}
+                </div>
                 <button
                   type="button"
                   onClick={() =>
@@ -1135,11 +1922,77 @@ export default function Home() {
                     referenceCurves={weightCurves}
                     highlightPoint={previewWeightPoint}
                     events={injectionEvents}
+                    treatmentSpans={treatmentSpans}
+                    xLabelFormatter={chartAgeFormatter}
+                    className="h-[220px] w-full sm:h-[240px]"
+                  />
+                </button>
+              </div>
+              <div
+                className={`rounded-2xl border border-outline/60 bg-white/70 p-4 ${chartPulseClass}`}
+              >
+                <div className="flex items-center justify-between gap-2 text-sm text-muted">
+                  <span>머리둘레 (cm)</span>
+                  {chartNotice("head") && (
+                    <span className="text-xs text-amber-800">{chartNotice("head")}</span>
+                  )}
+                </div>
+                <button
+                  type="button"
+                  onClick={() =>
+                    openChart("head", "36개월 미만 차트", "짧은 간격 변화에 집중한 보기")
+                  }
+                  className="mt-2 w-full cursor-zoom-in rounded-xl p-1 text-left transition hover:bg-white/60 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-accent2/60"
+                  aria-label="머리둘레 차트 크게 보기"
+                >
+                  <MetricChart
+                    key={`head-${currentVisit?.id ?? "empty"}`}
+                    metric="head"
+                    values={headValues}
+                    labels={chartLabels}
+                    xValues={visitAges}
+                    xRange={ageRange ?? undefined}
+                    referenceCurves={headCurves}
+                    highlightPoint={previewHeadPoint}
+                    events={injectionEvents}
+                    treatmentSpans={treatmentSpans}
                     xLabelFormatter={chartAgeFormatter}
                     className="h-[220px] w-full sm:h-[240px]"
                   />
                 </button>
               </div>
+              <div
+                className={`rounded-2xl border border-outline/60 bg-white/70 p-4 ${chartPulseClass}`}
+              >
+                <div className="flex items-center justify-between gap-2 text-sm text-muted">
+                  <span>{metricTitles[statureMetric].axis}</span>
+                  {chartNotice(statureMetric) && (
+                    <span className="text-xs text-amber-800">{chartNotice(statureMetric)}</span>
+                  )}
+                </div>
+                <button
+                  type="button"
+                  onClick={() =>
+                    openChart(statureMetric, "36개월 미만 차트", "짧은 간격 변화에 집중한 보기")
+                  }
+                  className="mt-2 w-full cursor-zoom-in rounded-xl p-1 text-left transition hover:bg-white/60 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-accent2/60"
+                  aria-label="신장별 체중 차트 크게 보기"
+                >
+                  <MetricChart
+                    key={`${statureMetric}-${currentVisit?.id ?? "empty"}`}
+                    metric={statureMetric}
+                    values={weightValues}
+                    labels={chartLabels}
+                    xValues={heightValues}
+                    xRange={heightRange ?? undefined}
+                    referenceCurves={chartCurves[statureMetric]}
+                    highlightPoint={previewWeightForHeightPoint}
+                    xLabelFormatter={chartHeightFormatter}
+                    xAxisLabel="신장 (cm)"
+                    className="h-[220px] w-full sm:h-[240px]"
+                  />
+                </button>
+              </div>
             </div>
           </div>
 
@@ -1152,7 +2005,12 @@ export default function Home() {
               <div
                 className={`rounded-2xl border border-outline/60 bg-white/70 p-4 ${chartPulseClass}`}
               >
-                <div className="text-sm text-muted">키 (cm)</div>
+                <div className="flex items-center justify-between gap-2 text-sm text-muted">
+                  <span>키 (cm)</span>
+                  {chartNotice("height") && (
+                    <span className="text-xs text-amber-800">{chartNotice("height")}</span>
+                  )}
+                </div>
                 <button
                   type="button"
                   onClick={() =>
@@ -1167,10 +2025,14 @@ export default function Home() {
                     values={heightValues}
                     labels={chartLabels}
                     xValues={visitAges}
-                    xRange={ageRange ?? undefined}
+                    xRange={heightAgeRange ?? undefined}
                     referenceCurves={heightCurves}
                     highlightPoint={previewHeightPoint}
+                    targetRange={heightTargetRange}
+                    boneAgePoints={boneAgePoints}
+                    pubertyMarks={pubertyMarks}
                     events={injectionEvents}
+                    treatmentSpans={treatmentSpans}
                     xLabelFormatter={chartAgeFormatter}
                     className="h-[220px] w-full sm:h-[240px]"
                   />
@@ -1179,7 +2041,12 @@ export default function Home() {
               <div
                 className={`rounded-2xl border border-outline/60 bg-white/70 p-4 ${chartPulseClass}`}
               >
-                <div className="text-sm text-muted">몸무게 (kg)</div>
+                <div className="flex items-center justify-between gap-2 text-sm text-muted">
+                  <span>몸무게 (kg)</span>
+                  {chartNotice("weight") && (
+                    <span className="text-xs text-amber-800">{chartNotice("weight")}</span>
+                  )}
+                </div>
                 <button
                   type="button"
                   onClick={() =>
@@ -1198,6 +2065,99 @@ export default function Home() {
                     referenceCurves={weightCurves}
                     highlightPoint={previewWeightPoint}
                     events={injectionEvents}
+                    treatmentSpans={treatmentSpans}
+                    xLabelFormatter={chartAgeFormatter}
+                    className="h-[220px] w-full sm:h-[240px]"
+                  />
+                </button>
+              </div>
+              <div
+                className={`rounded-2xl border border-outline/60 bg-white/70 p-4 ${chartPulseClass}`}
+              >
+                <div className="flex items-center justify-between gap-2 text-sm text-muted">
+                  <span>BMI (kg/m²)</span>
+                  {chartNotice("bmi") && (
+                    <span className="text-xs text-amber-800">{chartNotice("bmi")}</span>
+                  )}
+                </div>
+                <button
+                  type="button"
+                  onClick={() =>
+                    openChart("bmi", "36개월 이상 차트", "장기 추세를 한눈에 볼 수 있는 보기")
+                  }
+                  className="mt-2 w-full cursor-zoom-in rounded-xl p-1 text-left transition hover:bg-white/60 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-accent2/60"
+                  aria-label="BMI 차트 크게 보기"
+                >
+                  <MetricChart
+                    key={`bmi-${currentVisit?.id ?? "empty"}`}
+                    metric="bmi"
+                    values={bmiValues}
+                    labels={chartLabels}
+                    xValues={visitAges}
+                    xRange={ageRange ?? undefined}
+                    referenceCurves={bmiCurves}
+                    highlightPoint={previewBmiPoint}
+                    events={injectionEvents}
+                    treatmentSpans={treatmentSpans}
+                    xLabelFormatter={chartAgeFormatter}
+                    className="h-[220px] w-full sm:h-[240px]"
+                  />
+                </button>
+              </div>
+              <div
+                className={`rounded-2xl border border-outline/60 bg-white/70 p-4 ${chartPulseClass}`}
+              >
+                <div className="flex items-center justify-between gap-2 text-sm text-muted">
+                  <span>{metricTitles[statureMetric].axis}</span>
+                  {chartNotice(statureMetric) && (
+                    <span className="text-xs text-amber-800">{chartNotice(statureMetric)}</span>
+                  )}
+                </div>
+                <button
+                  type="button"
+                  onClick={() =>
+                    openChart(statureMetric, "36개월 이상 차트", "장기 추세를 한눈에 볼 수 있는 보기")
+                  }
+                  className="mt-2 w-full cursor-zoom-in rounded-xl p-1 text-left transition hover:bg-white/60 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-accent2/60"
+                  aria-label="신장별 체중 차트 크게 보기"
+                >
+                  <MetricChart
+                    key={`${statureMetric}-${currentVisit?.id ?? "empty"}`}
+                    metric={statureMetric}
+                    values={weightValues}
+                    labels={chartLabels}
+                    xValues={heightValues}
+                    xRange={heightRange ?? undefined}
+                    referenceCurves={chartCurves[statureMetric]}
+                    highlightPoint={previewWeightForHeightPoint}
+                    xLabelFormatter={chartHeightFormatter}
+                    xAxisLabel="신장 (cm)"
+                    className="h-[220px] w-full sm:h-[240px]"
+                  />
+                </button>
+              </div>
+              <div
+                className={`rounded-2xl border border-outline/60 bg-white/70 p-4 ${chartPulseClass}`}
+              >
+                <div className="text-sm text-muted">성장속도 (cm/년)</div>
+                <button
+                  type="button"
+                  onClick={() =>
+                    openChart("height-velocity", "36개월 이상 차트", "장기 추세를 한눈에 볼 수 있는 보기")
+                  }
+                  className="mt-2 w-full cursor-zoom-in rounded-xl p-1 text-left transition hover:bg-white/60 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-accent2/60"
+                  aria-label="성장속도 차트 크게 보기"
+                >
+                  <MetricChart
+                    key={`height-velocity-${currentVisit?.id ?? "empty"}`}
+                    metric="height-velocity"
+                    values={velocityValues}
+                    labels={velocityLabels}
+                    xValues={velocityAges}
+                    xRange={ageRange ?? undefined}
+                    highlightPoint={previewVelocityPoint}
+                    events={injectionEvents}
+                    treatmentSpans={treatmentSpans}
                     xLabelFormatter={chartAgeFormatter}
                     className="h-[220px] w-full sm:h-[240px]"
                   />
@@ -1208,83 +2168,363 @@ export default function Home() {
         </section>
 
         <section className="card frost animate-[rise_1.3s_ease] p-6 lg:col-span-12">
-          <h2 className="text-xl font-semibold">최근 방문 기록</h2>
-          {historyVisits.length ? (
-            <ul className="mt-4 grid gap-3">
-              {historyVisits.map((visit) => (
-                <li
-                  key={visit.id}
-                  className={`flex flex-wrap items-center justify-between gap-3 rounded-2xl border border-outline/60 px-4 py-3 ${
-                    editingVisitId === visit.id ? "bg-white/90" : "bg-white/70"
-                  }`}
-                >
-                  <div className="flex flex-wrap items-center gap-3">
-                    <strong className="text-sm text-ink">{formatDate(visit.date)}</strong>
-                    <span className="text-xs text-muted">
-                      키 {visit.height.toFixed(1)}cm · 몸무게 {visit.weight.toFixed(1)}kg · BMI{" "}
-                      {visit.bmi.toFixed(1)}
-                    </span>
-                  </div>
-                  <div className="flex items-center gap-2">
-                    <button
-                      type="button"
-                      onClick={() => handleEditVisit(visit)}
-                      disabled={isMutating}
-                      title="방문 기록 수정"
-                      aria-label="방문 기록 수정"
-                      className="rounded-full border border-outline/60 bg-white/80 p-2 text-ink transition hover:-translate-y-0.5 hover:text-accent2 disabled:cursor-not-allowed disabled:opacity-50"
+          <h2 className="text-xl font-semibold">골연령 기록</h2>
+          {currentPatient ? (
+            <>
+              <form onSubmit={handleAddBoneAge} className="mt-5 grid gap-4 sm:grid-cols-5">
+                <label className="text-sm text-muted">
+                  촬영일
+                  <input
+                    type="date"
+                    value={boneAgeForm.date}
+                    onChange={(event) =>
+                      setBoneAgeForm((prev) => ({ ...prev, date: event.target.value }))
+                    }
+                    required
+                    className="mt-2 w-full rounded-xl border border-outline bg-white/80 px-3 py-2 text-base text-ink outline-none focus:border-accent2"
+                  />
+                </label>
+                <label className="text-sm text-muted">
+                  골연령 (년)
+                  <input
+                    type="number"
+                    min="0"
+                    max="19"
+                    step="1"
+                    value={boneAgeForm.years}
+                    onChange={(event) =>
+                      setBoneAgeForm((prev) => ({ ...prev, years: event.target.value }))
+                    }
+                    required
+                    className="mt-2 w-full rounded-xl border border-outline bg-white/80 px-3 py-2 text-base text-ink outline-none focus:border-accent2"
+                    placeholder="9"
+                  />
+                </label>
+                <label className="text-sm text-muted">
+                  골연령 (개월)
+                  <input
+                    type="number"
+                    min="0"
+                    max="11"
+                    step="1"
+                    value={boneAgeForm.months}
+                    onChange={(event) =>
+                      setBoneAgeForm((prev) => ({ ...prev, months: event.target.value }))
+                    }
+                    className="mt-2 w-full rounded-xl border border-outline bg-white/80 px-3 py-2 text-base text-ink outline-none focus:border-accent2"
+                    placeholder="6"
+                  />
+                </label>
+                <label className="text-sm text-muted">
+                  판독 방법
+                  <select
+                    value={boneAgeForm.method}
+                    onChange={(event) =>
+                      setBoneAgeForm((prev) => ({
+                        ...prev,
+                        method: event.target.value as BoneAgeMethod
+                      }))
+                    }
+                    className="mt-2 w-full rounded-xl border border-outline bg-white/80 px-3 py-2 text-base text-ink outline-none focus:border-accent2"
+                  >
+                    {(Object.keys(boneAgeMethodLabels) as BoneAgeMethod[]).map((method) => (
+                      <option key={method} value={method}>
+                        {boneAgeMethodLabels[method]}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                <div className="flex items-end">
+                  <button
+                    type="submit"
+                    disabled={isSavingBoneAge}
+                    className="w-full rounded-full bg-accent px-6 py-2 text-sm font-semibold text-ink shadow-glow transition hover:-translate-y-0.5 disabled:cursor-not-allowed disabled:opacity-70"
+                  >
+                    {isSavingBoneAge ? "저장 중..." : "골연령 추가"}
+                  </button>
+                </div>
+              </form>
+              {boneAges.length ? (
+                <ul className="mt-4 grid gap-3">
+                  {[...boneAges]
+                    .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime())
+                    .map((reading) => {
+                      const chronological = getAgeInfo(
+                        currentPatient.birthDate,
+                        new Date(reading.date)
+                      );
+                      return (
+                        <li
+                          key={reading.id}
+                          className="flex flex-wrap items-center justify-between gap-3 rounded-2xl border border-outline/60 bg-white/70 px-4 py-3"
+                        >
+                          <div className="flex flex-wrap items-center gap-3">
+                            <strong className="text-sm text-ink">{formatDate(reading.date)}</strong>
+                            <span className="text-xs text-muted">
+                              골연령 {formatAge(reading.boneAgeMonths)} ·{" "}
+                              {boneAgeMethodLabels[reading.method]}
+                              {chronological && ` · 역연령 ${formatAge(chronological.ageMonths)}`}
+                            </span>
+                          </div>
+                          {canDeleteRecords && (
+                            <button
+                              type="button"
+                              onClick={() => handleDeleteBoneAge(reading.id)}
+                              disabled={isSavingBoneAge}
+                              title="골연령 기록 삭제"
+                              aria-label="골연령 기록 삭제"
+                              className="rounded-full border border-outline/60 bg-white/80 p-2 text-ink transition hover:-translate-y-0.5 hover:text-rose-600 disabled:cursor-not-allowed disabled:opacity-50"
+                            >
+                              <svg
+                                viewBox="0 0 24 24"
+                                fill="none"
+                                stroke="currentColor"
+                                strokeWidth="1.7"
+                                strokeLinecap="round"
+                                strokeLinejoin="round"
+                                className="h-4 w-4"
+                              >
+                                <path d="M3 6h18" />
+                                <path d="M8 6V4h8v2" />
+                                <path d="M19 6l-1 14H6L5 6" />
+                                <path d="M10 11v6" />
+                                <path d="M14 11v6" />
+                              </svg>
+                            </button>
+                          )}
+                        </li>
+                      );
+                    })}
+                </ul>
+              ) : (
+                <p className="mt-4 text-sm text-muted">저장된 골연령 기록이 없습니다.</p>
+              )}
+            </>
+          ) : (
+            <p className="mt-4 text-sm text-muted">환자를 불러오면 골연령을 기록할 수 있습니다.</p>
+          )}
+        </section>
+
+        <section className="card frost animate-[rise_1.3s_ease] p-6 lg:col-span-12">
+          <h2 className="text-xl font-semibold">투여 요법</h2>
+          {currentPatient ? (
+            <>
+              {canSetInjections && (
+                <form onSubmit={handleAddTreatment} className="mt-5 grid gap-4 sm:grid-cols-7">
+                  <label className="text-sm text-muted">
+                    약제
+                    <select
+                      value={treatmentForm.drug}
+                      onChange={(event) =>
+                        handleTreatmentDrugChange(event.target.value as TreatmentDrug)
+                      }
+                      className="mt-2 w-full rounded-xl border border-outline bg-white/80 px-3 py-2 text-base text-ink outline-none focus:border-accent2"
                     >
-                      <svg
-                        viewBox="0 0 24 24"
-                        fill="none"
-                        stroke="currentColor"
-                        strokeWidth="1.7"
-                        strokeLinecap="round"
-                        strokeLinejoin="round"
-                        className="h-4 w-4"
-                      >
-                        <path d="M12 20h9" />
-                        <path d="M16.5 3.5a2.121 2.121 0 1 1 3 3L7 19l-4 1 1-4L16.5 3.5z" />
-                      </svg>
-                    </button>
+                      {(Object.keys(treatmentDrugLabels) as TreatmentDrug[]).map((drug) => (
+                        <option key={drug} value={drug}>
+                          {treatmentDrugLabels[drug]}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                  <label className="text-sm text-muted">
+                    용량
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={treatmentForm.dose}
+                      onChange={(event) =>
+                        setTreatmentForm((prev) => ({ ...prev, dose: event.target.value }))
+                      }
+                      required
+                      className="mt-2 w-full rounded-xl border border-outline bg-white/80 px-3 py-2 text-base text-ink outline-none focus:border-accent2"
+                      placeholder="0.9"
+                    />
+                  </label>
+                  <label className="text-sm text-muted">
+                    단위
+                    <select
+                      value={treatmentForm.unit}
+                      onChange={(event) =>
+                        setTreatmentForm((prev) => ({ ...prev, unit: event.target.value as DoseUnit }))
+                      }
+                      className="mt-2 w-full rounded-xl border border-outline bg-white/80 px-3 py-2 text-base text-ink outline-none focus:border-accent2"
+                    >
+                      {(Object.keys(doseUnitLabels) as DoseUnit[]).map((unit) => (
+                        <option key={unit} value={unit}>
+                          {doseUnitLabels[unit]}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                  <label className="text-sm text-muted">
+                    투여 간격
+                    <select
+                      value={treatmentForm.frequency}
+                      onChange={(event) =>
+                        setTreatmentForm((prev) => ({
+                          ...prev,
+                          frequency: event.target.value as TreatmentFrequency
+                        }))
+                      }
+                      className="mt-2 w-full rounded-xl border border-outline bg-white/80 px-3 py-2 text-base text-ink outline-none focus:border-accent2"
+                    >
+                      {(Object.keys(treatmentFrequencyLabels) as TreatmentFrequency[]).map(
+                        (frequency) => (
+                          <option key={frequency} value={frequency}>
+                            {treatmentFrequencyLabels[frequency]}
+                          </option>
+                        )
+                      )}
+                    </select>
+                  </label>
+                  <label className="text-sm text-muted">
+                    시작일
+                    <input
+                      type="date"
+                      value={treatmentForm.startedOn}
+                      onChange={(event) =>
+                        setTreatmentForm((prev) => ({ ...prev, startedOn: event.target.value }))
+                      }
+                      required
+                      className="mt-2 w-full rounded-xl border border-outline bg-white/80 px-3 py-2 text-base text-ink outline-none focus:border-accent2"
+                    />
+                  </label>
+                  <label className="text-sm text-muted">
+                    로트 번호 (선택)
+                    <input
+                      type="text"
+                      value={treatmentForm.lotNumber}
+                      onChange={(event) =>
+                        setTreatmentForm((prev) => ({ ...prev, lotNumber: event.target.value }))
+                      }
+                      className="mt-2 w-full rounded-xl border border-outline bg-white/80 px-3 py-2 text-base text-ink outline-none focus:border-accent2"
+                    />
+                  </label>
+                  <div className="flex items-end">
                     <button
-                      type="button"
-                      onClick={() => handleDeleteVisit(visit.id)}
-                      disabled={isMutating}
-                      title="방문 기록 삭제"
-                      aria-label="방문 기록 삭제"
-                      className="rounded-full border border-outline/60 bg-white/80 p-2 text-ink transition hover:-translate-y-0.5 hover:text-rose-600 disabled:cursor-not-allowed disabled:opacity-50"
+                      type="submit"
+                      disabled={isSavingTreatment}
+                      className="w-full rounded-full bg-accent px-6 py-2 text-sm font-semibold text-ink shadow-glow transition hover:-translate-y-0.5 disabled:cursor-not-allowed disabled:opacity-70"
                     >
-                      <svg
-                        viewBox="0 0 24 24"
-                        fill="none"
-                        stroke="currentColor"
-                        strokeWidth="1.7"
-                        strokeLinecap="round"
-                        strokeLinejoin="round"
-                        className="h-4 w-4"
-                      >
-                        <path d="M3 6h18" />
-                        <path d="M8 6V4h8v2" />
-                        <path d="M19 6l-1 14H6L5 6" />
-                        <path d="M10 11v6" />
-                        <path d="M14 11v6" />
-                      </svg>
+                      {isSavingTreatment ? "저장 중..." : "요법 추가"}
                     </button>
                   </div>
-                </li>
-              ))}
-            </ul>
+                </form>
+              )}
+              {treatments.length ? (
+                <ul className="mt-4 grid gap-3">
+                  {[...treatments]
+                    .sort((a, b) => b.startedOn.localeCompare(a.startedOn))
+                    .map((treatment) => (
+                      <li
+                        key={treatment.id}
+                        className="flex flex-wrap items-center justify-between gap-3 rounded-2xl border border-outline/60 bg-white/70 px-4 py-3"
+                      >
+                        <div className="flex flex-wrap items-center gap-3">
+                          <strong className="text-sm text-ink">{formatTreatment(treatment)}</strong>
+                          <span className="text-xs text-muted">
+                            {formatTreatmentPeriod(treatment)}
+                            {treatment.lotNumber && ` · 로트 ${treatment.lotNumber}`}
+                          </span>
+                        </div>
+                        <div className="flex items-center gap-2">
+                          {canSetInjections && !treatment.stoppedOn && (
+                            <button
+                              type="button"
+                              onClick={() => handleStopTreatment(treatment)}
+                              disabled={isSavingTreatment}
+                              className="rounded-full border border-outline/60 bg-white/80 px-4 py-1 text-sm text-ink transition hover:-translate-y-0.5 disabled:cursor-not-allowed disabled:opacity-50"
+                            >
+                              중단
+                            </button>
+                          )}
+                          {canDeleteRecords && (
+                            <button
+                              type="button"
+                              onClick={() => handleDeleteTreatment(treatment.id)}
+                              disabled={isSavingTreatment}
+                              title="투여 요법 삭제"
+                              aria-label="투여 요법 삭제"
+                              className="rounded-full border border-outline/60 bg-white/80 p-2 text-ink transition hover:-translate-y-0.5 hover:text-rose-600 disabled:cursor-not-allowed disabled:opacity-50"
+                            >
+                              <svg
+                                viewBox="0 0 24 24"
+                                fill="none"
+                                stroke="currentColor"
+                                strokeWidth="1.7"
+                                strokeLinecap="round"
+                                strokeLinejoin="round"
+                                className="h-4 w-4"
+                              >
+                                <path d="M3 6h18" />
+                                <path d="M8 6V4h8v2" />
+                                <path d="M19 6l-1 14H6L5 6" />
+                                <path d="M10 11v6" />
+                                <path d="M14 11v6" />
+                              </svg>
+                            </button>
+                          )}
+                        </div>
+                      </li>
+                    ))}
+                </ul>
+              ) : (
+                <p className="mt-4 text-sm text-muted">저장된 투여 요법이 없습니다.</p>
+              )}
+            </>
           ) : (
-            <p className="mt-4 text-sm text-muted">저장된 방문 기록이 없습니다.</p>
+            <p className="mt-4 text-sm text-muted">환자를 불러오면 투여 요법을 기록할 수 있습니다.</p>
           )}
         </section>
+
+        <section className="card frost animate-[rise_1.3s_ease] p-6 lg:col-span-12">
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <h2 className="text-xl font-semibold">방문 기록</h2>
+            {currentPatient && visits.length > 0 && (
+              <div className="no-print flex items-center gap-2">
+                {(["csv", "xlsx"] as ExportFormat[]).map((format) => (
+                  <button
+                    key={format}
+                    type="button"
+                    onClick={() => handleExport(format)}
+                    className="rounded-full border border-outline/60 bg-white/80 px-4 py-1 text-sm text-ink transition hover:-translate-y-0.5"
+                  >
+                    {format === "csv" ? "CSV 내보내기" : "Excel 내보내기"}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+          <VisitHistoryTable
+            visits={visits}
+            heightTable={heightTable}
+            weightTable={weightTable}
+            bmiTable={bmiTable}
+            sexKey={sexKey}
+            gestationalAgeDays={gestationalAgeDays}
+            editingVisitId={editingVisitId}
+            disabled={isMutating}
+            onEdit={canEditVisits ? handleEditVisit : undefined}
+            onDelete={canDeleteRecords ? handleDeleteVisit : undefined}
+          />
+        </section>
       </main>
 
       <footer className="mt-10 text-xs text-muted">
         {ageInfo && currentVisit ? `현재 환자 기준: ${ageLabel} · ${ageBucket}` : ""}
       </footer>
 
+      {undo && (
+        <UndoToast
+          message={undo.message}
+          disabled={isUndoing}
+          onUndo={handleUndo}
+          onClose={closeUndo}
+        />
+      )}
+
       {expandedChart && (
         <div
           className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4 backdrop-blur-[2px] animate-[modal-fade_0.2s_ease]"
@@ -1303,7 +2543,7 @@ export default function Home() {
                   {expandedChart.title}
                 </span>
                 <h3 className="mt-2 text-2xl font-semibold text-ink">
-                  {expandedChart.metric === "height" ? "키 차트" : "몸무게 차트"}
+                  {metricTitles[expandedChart.metric].chart}
                 </h3>
                 <p className="mt-1 text-sm text-muted">{expandedChart.subtitle}</p>
               </div>
@@ -1317,22 +2557,34 @@ export default function Home() {
             </div>
 
             <div className="mt-5 rounded-2xl border border-outline/60 bg-white/80 p-4">
-              <div className="text-sm text-muted">
-                {expandedChart.metric === "height" ? "키 (cm)" : "몸무게 (kg)"}
+              <div className="flex items-center justify-between gap-2 text-sm text-muted">
+                <span>{metricTitles[expandedChart.metric].axis}</span>
+                {chartNotice(expandedChart.metric) && (
+                  <span className="text-xs text-amber-800">{chartNotice(expandedChart.metric)}</span>
+                )}
               </div>
               <MetricChart
                 key={`expanded-${expandedChart.metric}-${currentVisit?.id ?? "empty"}`}
                 metric={expandedChart.metric}
-                values={expandedChart.metric === "height" ? heightValues : weightValues}
-                labels={chartLabels}
-                xValues={visitAges}
-                xRange={ageRange ?? undefined}
-                referenceCurves={expandedChart.metric === "height" ? heightCurves : weightCurves}
-                highlightPoint={
-                  expandedChart.metric === "height" ? previewHeightPoint : previewWeightPoint
+                values={chartValues[expandedChart.metric]}
+                labels={expandedChart.metric === "height-velocity" ? velocityLabels : chartLabels}
+                xValues={chartXValues[expandedChart.metric]}
+                xRange={
+                  (expandedByHeight
+                    ? heightRange
+                    : expandedChart.metric === "height"
+                    ? heightAgeRange
+                    : ageRange) ?? undefined
                 }
-                events={injectionEvents}
-                xLabelFormatter={chartAgeFormatter}
+                referenceCurves={chartCurves[expandedChart.metric]}
+                highlightPoint={chartPreviewPoints[expandedChart.metric]}
+                targetRange={expandedChart.metric === "height" ? heightTargetRange : undefined}
+                boneAgePoints={expandedChart.metric === "height" ? boneAgePoints : undefined}
+                pubertyMarks={expandedChart.metric === "height" ? pubertyMarks : undefined}
+                events={expandedByHeight ? undefined : injectionEvents}
+                treatmentSpans={expandedByHeight ? undefined : treatmentSpans}
+                xLabelFormatter={expandedByHeight ? chartHeightFormatter : chartAgeFormatter}
+                xAxisLabel={expandedByHeight ? "신장 (cm)" : undefined}
                 className="h-[320px] w-full sm:h-[360px] lg:h-[420px]"
               />
             </div>
@@ -1342,3 +2594,11 @@ export default function Home() {
     </div>
   );
 }
+
+export default function Page() {
+  return (
+    <SessionGate>
+      <Home />
+    </SessionGate>
+  );
+}
@@ -0,0 +1,132 @@
+"use client";
+
+import Link from "next/link";
+import { useParams } from "next/navigation";
+import { useEffect, useState } from "react";
+import SessionGate from "../../../../components/SessionGate";
+import { errorMessage, requestJson } from "../../../../lib/apiClient";
+import { auditActionLabels, auditChanges, auditRecordLabel } from "../../../../lib/audit";
+import type { AuditEntry, Patient } from "../../../../lib/records";
+import { formatBirthSex } from "../../../../lib/residentId";
+
+function formatChangedAt(value: string) {
+  return new Date(value).toLocaleString("ko-KR", {
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit"
+  });
+}
+
+function HistoryPage() {
+  const { id } = useParams<{ id: string }>();
+  const [patient, setPatient] = useState<Patient | null>(null);
+  const [history, setHistory] = useState<AuditEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let active = true;
+    requestJson<{ patient: Patient; history: AuditEntry[] }>(`/api/patients/${id}/history`)
+      .then((data) => {
+        if (active) {
+          setPatient(data.patient);
+          setHistory(data.history);
+        }
+      })
+      .catch((loadError) => {
+        if (active) {
+          setError(errorMessage(loadError, "변경 이력을 불러오지 못했습니다."));
+        }
+      })
+      .finally(() => {
+        if (active) {
+          setIsLoading(false);
+        }
+      });
+
+    return () => {
+      active = false;
+    };
+  }, [id]);
+
+  return (
+    <div className="mx-auto min-h-screen max-w-6xl px-6 pb-20 pt-10">
+      <header className="flex flex-wrap items-start justify-between gap-6">
+        <div>
+          <span className="text-xs uppercase tracking-[0.3em] text-accent2">Growth Tracker</span>
+          <h1 className="mt-2 text-4xl font-semibold text-ink">변경 이력</h1>
+          <p className="mt-2 max-w-xl text-sm text-muted">
+            {patient
+              ? `${patient.name} · ${formatBirthSex(patient.birthDate, patient.sex)}`
+              : "환자 정보와 방문 기록의 생성·수정·삭제 내역입니다."}
+          </p>
+        </div>
+        <div className="no-print flex items-center gap-2">
+          <Link
+            href={`/?patient=${id}`}
+            className="rounded-full border border-outline px-5 py-2 text-sm font-medium text-ink transition hover:-translate-y-0.5"
+          >
+            성장 차트
+          </Link>
+          <button
+            type="button"
+            onClick={() => window.print()}
+            className="rounded-full border border-outline px-5 py-2 text-sm font-medium text-ink transition hover:-translate-y-0.5"
+          >
+            출력
+          </button>
+        </div>
+      </header>
+
+      <main className="mt-10 grid gap-6">
+        {error && <div className="rounded-2xl bg-red-100 px-4 py-3 text-sm text-red-700">{error}</div>}
+        {isLoading ? (
+          <p className="text-sm text-muted">변경 이력을 불러오는 중입니다...</p>
+        ) : (
+          !error &&
+          !history.length && <p className="text-sm text-muted">기록된 변경 이력이 없습니다.</p>
+        )}
+        {history.map((entry) => (
+          <section key={entry.id} className="card frost p-6">
+            <div className="flex flex-wrap items-baseline justify-between gap-3">
+              <h2 className="text-lg font-semibold text-ink">
+                {auditRecordLabel(entry)} {auditActionLabels[entry.action]}
+              </h2>
+              <span className="text-xs text-muted">
+                {formatChangedAt(entry.changedAt)} · {entry.changedBy ?? "알 수 없음"}
+              </span>
+            </div>
+            <table className="mt-4 w-full text-left text-sm">
+              <thead className="text-xs text-muted">
+                <tr>
+                  <th className="px-3 py-2 font-medium">항목</th>
+                  <th className="px-3 py-2 font-medium">변경 전</th>
+                  <th className="px-3 py-2 font-medium">변경 후</th>
+                </tr>
+              </thead>
+              <tbody>
+                {auditChanges(entry).map((change) => (
+                  <tr key={change.field} className="border-t border-outline/60">
+                    <td className="px-3 py-2 text-muted">{change.label}</td>
+                    <td className="px-3 py-2 text-muted">{change.before}</td>
+                    <td className="px-3 py-2 font-semibold text-ink">{change.after}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </section>
+        ))}
+      </main>
+    </div>
+  );
+}
+
+export default function Page() {
+  return (
+    <SessionGate>
+      <HistoryPage />
+    </SessionGate>
+  );
+}
@@ -0,0 +1,231 @@
+"use client";
+
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { useEffect, useState } from "react";
+import SessionGate from "../../components/SessionGate";
+import { growthAlertLabels } from "../../lib/alerts";
+import { errorMessage, requestJson } from "../../lib/apiClient";
+import { formatDate } from "../../lib/format";
+import {
+  correctAgeMonths,
+  evaluateGrowth,
+  formatEvaluation,
+  GrowthReference,
+  growthReferenceLabels,
+  GrowthTable
+} from "../../lib/growth";
+import type { PatientSummary } from "../../lib/records";
+import { formatBirthSex } from "../../lib/residentId";
+
+function PatientsPage() {
+  const router = useRouter();
+  const [query, setQuery] = useState("");
+  const [birthDate, setBirthDate] = useState("");
+  const [results, setResults] = useState<PatientSummary[]>([]);
+  const [heightTables, setHeightTables] = useState<
+    Partial<Record<GrowthReference, GrowthTable | null>>
+  >({});
+  const [isSearching, setIsSearching] = useState(false);
+  const [hasSearched, setHasSearched] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let active = true;
+    const loadTable = async (reference: GrowthReference) => {
+      let table: GrowthTable | null = null;
+      try {
+        const response = await fetch(`/api/growth-table?metric=height&reference=${reference}`);
+        if (!response.ok) {
+          throw new Error("Failed to load growth table");
+        }
+        table = (await response.json()) as GrowthTable;
+      } catch {
+        table = null;
+      }
+      if (active) {
+        setHeightTables((prev) => ({ ...prev, [reference]: table }));
+      }
+    };
+
+    (Object.keys(growthReferenceLabels) as GrowthReference[]).forEach(loadTable);
+
+    return () => {
+      active = false;
+    };
+  }, []);
+
+  const handleSearch = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!query.trim() && !birthDate) {
+      setError("이름, 차트번호 또는 생년월일을 입력해주세요.");
+      return;
+    }
+
+    setIsSearching(true);
+    setError(null);
+    try {
+      const params = new URLSearchParams();
+      if (query.trim()) {
+        params.set("q", query.trim());
+      }
+      if (birthDate) {
+        params.set("birthDate", birthDate);
+      }
+      const { patients } = await requestJson<{ patients: PatientSummary[] }>(
+        `/api/patients?${params.toString()}`
+      );
+      setResults(patients);
+      setHasSearched(true);
+    } catch (error) {
+      setError(errorMessage(error, "검색 중 오류가 발생했습니다. 잠시 후 다시 시도해주세요."));
+    } finally {
+      setIsSearching(false);
+    }
+  };
+
+  const latestPercentile = ({ patient, lastVisit }: PatientSummary) => {
+    if (!lastVisit) {
+      return "—";
+    }
+    return formatEvaluation(
+      evaluateGrowth(
+        heightTables[patient.growthReference] ?? null,
+        patient.sex,
+        correctAgeMonths(lastVisit.ageMonths, patient.gestationalAgeDays),
+        lastVisit.height
+      )
+    );
+  };
+
+  return (
+    <div className="mx-auto min-h-screen max-w-6xl px-6 pb-20 pt-10">
+      <header className="flex flex-wrap items-start justify-between gap-6">
+        <div>
+          <span className="text-xs uppercase tracking-[0.3em] text-accent2">Growth Tracker</span>
+          <h1 className="mt-2 text-4xl font-semibold text-ink">환자 목록</h1>
+          <p className="mt-2 max-w-xl text-sm text-muted">
+            이름, 차트번호 또는 생년월일로 환자를 찾아 성장 차트를 엽니다.
+          </p>
+        </div>
+        <div className="no-print flex items-center gap-2">
+          <Link
+            href="/import"
+            className="rounded-full border border-outline px-5 py-2 text-sm font-medium text-ink transition hover:-translate-y-0.5"
+          >
+            CSV 가져오기
+          </Link>
+          <Link
+            href="/"
+            className="rounded-full border border-outline px-5 py-2 text-sm font-medium text-ink transition hover:-translate-y-0.5"
+          >
+            방문 입력
+          </Link>
+        </div>
+      </header>
+
+      <main className="mt-10 grid gap-6">
+        <section className="card frost animate-[rise_0.7s_ease] p-6">
+          <form onSubmit={handleSearch} className="grid gap-4 sm:grid-cols-[2fr_1fr_auto]">
+            <label className="text-sm text-muted">
+              이름 또는 차트번호
+              <input
+                value={query}
+                onChange={(event) => setQuery(event.target.value)}
+                className="mt-2 w-full rounded-xl border border-outline bg-white/80 px-3 py-2 text-base text-ink outline-none focus:border-accent2"
+                placeholder="홍길동 / CH-2025"
+              />
+            </label>
+            <label className="text-sm text-muted">
+              생년월일
+              <input
+                type="date"
+                value={birthDate}
+                onChange={(event) => setBirthDate(event.target.value)}
+                className="mt-2 w-full rounded-xl border border-outline bg-white/80 px-3 py-2 text-base text-ink outline-none focus:border-accent2"
+              />
+            </label>
+            <div className="flex items-end">
+              <button
+                type="submit"
+                disabled={isSearching}
+                className="w-full rounded-full bg-accent px-6 py-2 text-sm font-semibold text-ink shadow-glow transition hover:-translate-y-0.5 disabled:cursor-not-allowed disabled:opacity-70"
+              >
+                {isSearching ? "검색 중..." : "검색"}
+              </button>
+            </div>
+          </form>
+          {error && (
+            <div className="mt-4 rounded-2xl bg-red-100 px-4 py-3 text-sm text-red-700">{error}</div>
+          )}
+        </section>
+
+        <section className="card frost animate-[rise_0.9s_ease] p-6">
+          <h2 className="text-xl font-semibold">검색 결과</h2>
+          {results.length ? (
+            <div className="mt-4 overflow-x-auto">
+              <table className="w-full text-left text-sm">
+                <thead className="text-xs text-muted">
+                  <tr>
+                    <th className="px-3 py-2 font-medium">이름</th>
+                    <th className="px-3 py-2 font-medium">차트번호</th>
+                    <th className="px-3 py-2 font-medium">생년월일</th>
+                    <th className="px-3 py-2 font-medium">최근 방문</th>
+                    <th className="px-3 py-2 font-medium">최근 키 백분위</th>
+                    <th className="px-3 py-2 font-medium">알림</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {results.map((item) => (
+                    <tr
+                      key={item.patient.id}
+                      onClick={() => router.push(`/?patient=${item.patient.id}`)}
+                      className="cursor-pointer border-t border-outline/60 transition hover:bg-white/80"
+                    >
+                      <td className="px-3 py-3 font-semibold text-ink">{item.patient.name}</td>
+                      <td className="px-3 py-3 text-muted">{item.patient.chartNo ?? "—"}</td>
+                      <td className="px-3 py-3 text-muted">{formatBirthSex(item.patient.birthDate, item.patient.sex)}</td>
+                      <td className="px-3 py-3 text-ink">
+                        {item.lastVisit ? formatDate(item.lastVisit.date) : "—"}
+                      </td>
+                      <td className="px-3 py-3 text-ink">{latestPercentile(item)}</td>
+                      <td className="px-3 py-3">
+                        {item.alerts.length ? (
+                          <div className="flex flex-wrap gap-1">
+                            {item.alerts.map((alert) => (
+                              <span
+                                key={alert.rule}
+                                title={alert.message}
+                                className="rounded-full bg-amber-100 px-2 py-0.5 text-xs text-amber-800"
+                              >
+                                {growthAlertLabels[alert.rule]}
+                              </span>
+                            ))}
+                          </div>
+                        ) : (
+                          <span className="text-muted">—</span>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ) : (
+            <p className="mt-4 text-sm text-muted">
+              {hasSearched ? "검색 결과가 없습니다." : "검색어를 입력하면 환자 목록이 표시됩니다."}
+            </p>
+          )}
+        </section>
+      </main>
+    </div>
+  );
+}
+
+export default function Page() {
+  return (
+    <SessionGate>
+      <PatientsPage />
+    </SessionGate>
+  );
+}
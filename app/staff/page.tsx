@@ -0,0 +1,207 @@
+"use client";
+
+import Link from "next/link";
+import { useEffect, useState } from "react";
+import SessionGate, { useStaff } from "../../components/SessionGate";
+import { errorMessage, requestJson } from "../../lib/apiClient";
+import { hasPermission, StaffRole, staffRoleLabels, staffRoles } from "../../lib/permissions";
+import type { StaffMember } from "../../lib/records";
+
+function StaffPage() {
+  const currentStaff = useStaff();
+  const canManage = hasPermission(currentStaff?.role, "manageStaff");
+  const [members, setMembers] = useState<StaffMember[]>([]);
+  const [invite, setInvite] = useState({ email: "", name: "", role: "nurse" as StaffRole });
+  const [message, setMessage] = useState<{ text: string; type: "error" | "success" } | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!canManage) {
+      return;
+    }
+    requestJson<{ staff: StaffMember[] }>("/api/staff")
+      .then(({ staff }) => setMembers(staff))
+      .catch((error) =>
+        setMessage({ text: errorMessage(error, "직원 목록을 불러오지 못했습니다."), type: "error" })
+      );
+  }, [canManage]);
+
+  const handleInvite = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setIsSaving(true);
+    try {
+      const { staff } = await requestJson<{ staff: StaffMember }>("/api/staff", {
+        method: "POST",
+        body: invite
+      });
+      setMembers((prev) => [...prev, staff].sort((a, b) => a.name.localeCompare(b.name)));
+      setInvite({ email: "", name: "", role: "nurse" });
+      setMessage({ text: `${staff.name}님에게 초대 메일을 보냈습니다.`, type: "success" });
+    } catch (error) {
+      setMessage({ text: errorMessage(error, "초대 중 오류가 발생했습니다."), type: "error" });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRoleChange = async (member: StaffMember, role: StaffRole) => {
+    setIsSaving(true);
+    try {
+      const { staff } = await requestJson<{ staff: StaffMember }>(`/api/staff/${member.userId}`, {
+        method: "PATCH",
+        body: { role }
+      });
+      setMembers((prev) => prev.map((item) => (item.userId === staff.userId ? staff : item)));
+      setMessage({ text: `${staff.name}님의 역할을 변경했습니다.`, type: "success" });
+    } catch (error) {
+      setMessage({ text: errorMessage(error, "역할 변경 중 오류가 발생했습니다."), type: "error" });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRemove = async (member: StaffMember) => {
+    if (!window.confirm(`${member.name}님의 접근 권한을 삭제할까요?`)) {
+      return;
+    }
+    setIsSaving(true);
+    try {
+      await requestJson(`/api/staff/${member.userId}`, { method: "DELETE" });
+      setMembers((prev) => prev.filter((item) => item.userId !== member.userId));
+      setMessage({ text: `${member.name}님의 접근 권한을 삭제했습니다.`, type: "success" });
+    } catch (error) {
+      setMessage({ text: errorMessage(error, "삭제 중 오류가 발생했습니다."), type: "error" });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="mx-auto min-h-screen max-w-6xl px-6 pb-20 pt-10">
+      <header className="flex flex-wrap items-start justify-between gap-6">
+        <div>
+          <span className="text-xs uppercase tracking-[0.3em] text-accent2">Growth Tracker</span>
+          <h1 className="mt-2 text-4xl font-semibold text-ink">직원 관리</h1>
+          <p className="mt-2 max-w-xl text-sm text-muted">
+            간호사는 측정값을 입력하고, 의사는 방문 기록 수정·삭제와 주사 기록을 할 수 있습니다.
+          </p>
+        </div>
+        <Link
+          href="/"
+          className="no-print rounded-full border border-outline px-5 py-2 text-sm font-medium text-ink transition hover:-translate-y-0.5"
+        >
+          방문 입력
+        </Link>
+      </header>
+
+      {!canManage ? (
+        <p className="mt-10 text-sm text-muted">관리자만 직원을 관리할 수 있습니다.</p>
+      ) : (
+        <main className="mt-10 grid gap-6">
+          <section className="card frost animate-[rise_0.7s_ease] p-6">
+            <h2 className="text-xl font-semibold">직원 초대</h2>
+            <form onSubmit={handleInvite} className="mt-5 grid gap-4 sm:grid-cols-[2fr_1fr_1fr_auto]">
+              <label className="text-sm text-muted">
+                이메일
+                <input
+                  type="email"
+                  value={invite.email}
+                  onChange={(event) => setInvite((prev) => ({ ...prev, email: event.target.value }))}
+                  required
+                  className="mt-2 w-full rounded-xl border border-outline bg-white/80 px-3 py-2 text-base text-ink outline-none focus:border-accent2"
+                />
+              </label>
+              <label className="text-sm text-muted">
+                이름
+                <input
+                  value={invite.name}
+                  onChange={(event) => setInvite((prev) => ({ ...prev, name: event.target.value }))}
+                  required
+                  className="mt-2 w-full rounded-xl border border-outline bg-white/80 px-3 py-2 text-base text-ink outline-none focus:border-accent2"
+                />
+              </label>
+              <label className="text-sm text-muted">
+                역할
+                <select
+                  value={invite.role}
+                  onChange={(event) =>
+                    setInvite((prev) => ({ ...prev, role: event.target.value as StaffRole }))
+                  }
+                  className="mt-2 w-full rounded-xl border border-outline bg-white/80 px-3 py-2 text-base text-ink outline-none focus:border-accent2"
+                >
+                  {staffRoles.map((role) => (
+                    <option key={role} value={role}>
+                      {staffRoleLabels[role]}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <div className="flex items-end">
+                <button
+                  type="submit"
+                  disabled={isSaving}
+                  className="w-full rounded-full bg-accent px-6 py-2 text-sm font-semibold text-ink shadow-glow transition hover:-translate-y-0.5 disabled:cursor-not-allowed disabled:opacity-70"
+                >
+                  초대
+                </button>
+              </div>
+            </form>
+            {message && (
+              <div
+                className={`mt-4 rounded-2xl px-4 py-3 text-sm ${
+                  message.type === "error" ? "bg-red-100 text-red-700" : "bg-emerald-100 text-emerald-800"
+                }`}
+              >
+                {message.text}
+              </div>
+            )}
+          </section>
+
+          <section className="card frost animate-[rise_0.9s_ease] p-6">
+            <h2 className="text-xl font-semibold">직원 목록</h2>
+            <ul className="mt-4 grid gap-3">
+              {members.map((member) => (
+                <li
+                  key={member.userId}
+                  className="flex flex-wrap items-center justify-between gap-3 rounded-2xl border border-outline/60 bg-white/70 px-4 py-3"
+                >
+                  <strong className="text-sm text-ink">{member.name}</strong>
+                  <div className="flex items-center gap-2">
+                    <select
+                      value={member.role}
+                      onChange={(event) => handleRoleChange(member, event.target.value as StaffRole)}
+                      disabled={isSaving || member.userId === currentStaff?.userId}
+                      className="rounded-xl border border-outline bg-white/80 px-3 py-1 text-sm text-ink outline-none focus:border-accent2 disabled:opacity-60"
+                    >
+                      {staffRoles.map((role) => (
+                        <option key={role} value={role}>
+                          {staffRoleLabels[role]}
+                        </option>
+                      ))}
+                    </select>
+                    <button
+                      type="button"
+                      onClick={() => handleRemove(member)}
+                      disabled={isSaving || member.userId === currentStaff?.userId}
+                      className="rounded-full border border-outline/60 bg-white/80 px-3 py-1 text-sm text-ink transition hover:-translate-y-0.5 hover:text-rose-600 disabled:cursor-not-allowed disabled:opacity-50"
+                    >
+                      삭제
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          </section>
+        </main>
+      )}
+    </div>
+  );
+}
+
+export default function Page() {
+  return (
+    <SessionGate>
+      <StaffPage />
+    </SessionGate>
+  );
+}
@@ -0,0 +1,225 @@
+"use client";
+
+import Link from "next/link";
+import { useEffect, useState } from "react";
+import SessionGate, { useStaff } from "../../components/SessionGate";
+import { errorMessage, requestJson } from "../../lib/apiClient";
+import { formatDate } from "../../lib/format";
+import { hasPermission } from "../../lib/permissions";
+import type { TrashedPatient, TrashedVisit, TrashKind } from "../../lib/records";
+import { formatBirthSex } from "../../lib/residentId";
+
+type TrashData = {
+  patients: TrashedPatient[];
+  visits: TrashedVisit[];
+  retentionDays: number;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function TrashPage() {
+  const staff = useStaff();
+  const canManage = hasPermission(staff?.role, "manageTrash");
+  const [trash, setTrash] = useState<TrashData | null>(null);
+  const [message, setMessage] = useState<{ text: string; type: "error" | "success" } | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const loadTrash = async () => {
+    try {
+      setTrash(await requestJson<TrashData>("/api/trash"));
+    } catch (error) {
+      setMessage({ text: errorMessage(error, "휴지통을 불러오지 못했습니다."), type: "error" });
+    }
+  };
+
+  useEffect(() => {
+    if (canManage) {
+      loadTrash();
+    }
+  }, [canManage]);
+
+  const isExpired = (deletedAt: string) =>
+    trash !== null && Date.now() - new Date(deletedAt).getTime() > trash.retentionDays * DAY_MS;
+
+  const runAction = async (action: () => Promise<string>, fallback: string) => {
+    setIsSaving(true);
+    try {
+      const text = await action();
+      await loadTrash();
+      setMessage({ text, type: "success" });
+    } catch (error) {
+      setMessage({ text: errorMessage(error, fallback), type: "error" });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRestore = (kind: TrashKind, id: string) =>
+    runAction(async () => {
+      await requestJson(`/api/trash/${kind}/${id}`, { method: "POST" });
+      return "기록을 복원했습니다.";
+    }, "복원 중 오류가 발생했습니다.");
+
+  const handlePurge = (kind: TrashKind, id: string) => {
+    if (!window.confirm("영구 삭제한 기록은 되돌릴 수 없습니다. 삭제할까요?")) {
+      return;
+    }
+    runAction(async () => {
+      await requestJson(`/api/trash/${kind}/${id}`, { method: "DELETE" });
+      return "기록을 영구 삭제했습니다.";
+    }, "영구 삭제 중 오류가 발생했습니다.");
+  };
+
+  const handlePurgeExpired = () => {
+    if (!window.confirm("보관 기간이 지난 기록을 모두 영구 삭제할까요?")) {
+      return;
+    }
+    runAction(async () => {
+      const { purged } = await requestJson<{ purged: number }>("/api/trash", { method: "DELETE" });
+      return `${purged}건을 영구 삭제했습니다.`;
+    }, "영구 삭제 중 오류가 발생했습니다.");
+  };
+
+  const actionButtons = (kind: TrashKind, id: string, deletedAt: string) => (
+    <div className="flex items-center justify-end gap-2">
+      <button
+        type="button"
+        onClick={() => handleRestore(kind, id)}
+        disabled={isSaving}
+        className="rounded-full border border-outline/60 bg-white/80 px-3 py-1 text-sm text-ink transition hover:-translate-y-0.5 hover:text-accent2 disabled:cursor-not-allowed disabled:opacity-50"
+      >
+        복원
+      </button>
+      <button
+        type="button"
+        onClick={() => handlePurge(kind, id)}
+        disabled={isSaving || !isExpired(deletedAt)}
+        title={isExpired(deletedAt) ? undefined : "보관 기간이 지나야 영구 삭제할 수 있습니다."}
+        className="rounded-full border border-outline/60 bg-white/80 px-3 py-1 text-sm text-ink transition hover:-translate-y-0.5 hover:text-rose-600 disabled:cursor-not-allowed disabled:opacity-50"
+      >
+        영구 삭제
+      </button>
+    </div>
+  );
+
+  return (
+    <div className="mx-auto min-h-screen max-w-6xl px-6 pb-20 pt-10">
+      <header className="flex flex-wrap items-start justify-between gap-6">
+        <div>
+          <span className="text-xs uppercase tracking-[0.3em] text-accent2">Growth Tracker</span>
+          <h1 className="mt-2 text-4xl font-semibold text-ink">휴지통</h1>
+          <p className="mt-2 max-w-xl text-sm text-muted">
+            삭제된 환자와 방문 기록을 복원하거나, 보관 기간
+            {trash ? ` ${trash.retentionDays}일` : ""}이 지난 기록을 영구 삭제합니다.
+          </p>
+        </div>
+        <div className="no-print flex items-center gap-2">
+          {canManage && (
+            <button
+              type="button"
+              onClick={handlePurgeExpired}
+              disabled={isSaving}
+              className="rounded-full border border-outline px-5 py-2 text-sm font-medium text-ink transition hover:-translate-y-0.5 hover:text-rose-600 disabled:cursor-not-allowed disabled:opacity-50"
+            >
+              기간 지난 기록 비우기
+            </button>
+          )}
+          <Link
+            href="/"
+            className="rounded-full border border-outline px-5 py-2 text-sm font-medium text-ink transition hover:-translate-y-0.5"
+          >
+            방문 입력
+          </Link>
+        </div>
+      </header>
+
+      {!canManage ? (
+        <p className="mt-10 text-sm text-muted">관리자만 휴지통을 사용할 수 있습니다.</p>
+      ) : (
+        <main className="mt-10 grid gap-6">
+          {message && (
+            <div
+              className={`rounded-2xl px-4 py-3 text-sm ${
+                message.type === "error" ? "bg-red-100 text-red-700" : "bg-emerald-100 text-emerald-800"
+              }`}
+            >
+              {message.text}
+            </div>
+          )}
+
+          <section className="card frost animate-[rise_0.7s_ease] p-6">
+            <h2 className="text-xl font-semibold">삭제된 환자</h2>
+            {trash?.patients.length ? (
+              <table className="mt-4 w-full text-left text-sm">
+                <thead className="text-xs text-muted">
+                  <tr>
+                    <th className="px-3 py-2 font-medium">이름</th>
+                    <th className="px-3 py-2 font-medium">차트번호</th>
+                    <th className="px-3 py-2 font-medium">생년월일</th>
+                    <th className="px-3 py-2 font-medium">삭제일</th>
+                    <th className="px-3 py-2" />
+                  </tr>
+                </thead>
+                <tbody>
+                  {trash.patients.map(({ patient, deletedAt }) => (
+                    <tr key={patient.id} className="border-t border-outline/60">
+                      <td className="px-3 py-3 font-semibold text-ink">{patient.name}</td>
+                      <td className="px-3 py-3 text-muted">{patient.chartNo ?? "—"}</td>
+                      <td className="px-3 py-3 text-muted">
+                        {formatBirthSex(patient.birthDate, patient.sex)}
+                      </td>
+                      <td className="px-3 py-3 text-muted">{formatDate(deletedAt)}</td>
+                      <td className="px-3 py-3">{actionButtons("patients", patient.id, deletedAt)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            ) : (
+              <p className="mt-4 text-sm text-muted">삭제된 환자가 없습니다.</p>
+            )}
+          </section>
+
+          <section className="card frost animate-[rise_0.9s_ease] p-6">
+            <h2 className="text-xl font-semibold">삭제된 방문 기록</h2>
+            {trash?.visits.length ? (
+              <table className="mt-4 w-full text-left text-sm">
+                <thead className="text-xs text-muted">
+                  <tr>
+                    <th className="px-3 py-2 font-medium">환자</th>
+                    <th className="px-3 py-2 font-medium">검사일</th>
+                    <th className="px-3 py-2 font-medium">키 (cm)</th>
+                    <th className="px-3 py-2 font-medium">몸무게 (kg)</th>
+                    <th className="px-3 py-2 font-medium">삭제일</th>
+                    <th className="px-3 py-2" />
+                  </tr>
+                </thead>
+                <tbody>
+                  {trash.visits.map(({ visit, patientName, deletedAt }) => (
+                    <tr key={visit.id} className="border-t border-outline/60">
+                      <td className="px-3 py-3 font-semibold text-ink">{patientName}</td>
+                      <td className="px-3 py-3 text-muted">{formatDate(visit.date)}</td>
+                      <td className="px-3 py-3 text-ink">{visit.height.toFixed(1)}</td>
+                      <td className="px-3 py-3 text-ink">{visit.weight.toFixed(1)}</td>
+                      <td className="px-3 py-3 text-muted">{formatDate(deletedAt)}</td>
+                      <td className="px-3 py-3">{actionButtons("visits", visit.id, deletedAt)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            ) : (
+              <p className="mt-4 text-sm text-muted">삭제된 방문 기록이 없습니다.</p>
+            )}
+          </section>
+        </main>
+      )}
+    </div>
+  );
+}
+
+export default function Page() {
+  return (
+    <SessionGate>
+      <TrashPage />
+    </SessionGate>
+  );
+}
@@ -1,4 +1,6 @@
 import React from "react";
+import { chartStyleProps } from "../lib/chartStyles";
+import type { GrowthMetric } from "../lib/growth";
 
 export type ReferenceCurve = {
   key: string;
@@ -12,8 +14,35 @@ export type ChartEvent = {
   offset?: number;
 };
 
-type MetricChartProps = {
-  metric: "height" | "weight";
+export type ChartTreatmentSpan = {
+  start: number;
+  end: number;
+  label: string;
+  type: "growth" | "suppression";
+};
+
+export type ChartPubertyMark = {
+  x: number;
+  label: string;
+  early: boolean;
+};
+
+export type ChartTargetRange = {
+  x: number;
+  value: number;
+  min: number;
+  max: number;
+  label: string;
+};
+
+export type ChartBoneAgePoint = {
+  x: number;
+  boneAge: number;
+  y: number;
+};
+
+export type MetricChartProps = {
+  metric: GrowthMetric;
   values: number[];
   labels: string[];
   xValues?: number[];
@@ -21,7 +50,12 @@ type MetricChartProps = {
   referenceCurves?: ReferenceCurve[];
   highlightPoint?: { x: number; y: number };
   events?: ChartEvent[];
+  treatmentSpans?: ChartTreatmentSpan[];
+  pubertyMarks?: ChartPubertyMark[];
+  targetRange?: ChartTargetRange;
+  boneAgePoints?: ChartBoneAgePoint[];
   xLabelFormatter?: (value: number) => string;
+  xAxisLabel?: string;
   className?: string;
 };
 
@@ -38,7 +72,12 @@ export default function MetricChart({
   referenceCurves,
   highlightPoint,
   events,
+  treatmentSpans,
+  pubertyMarks,
+  targetRange,
+  boneAgePoints,
   xLabelFormatter,
+  xAxisLabel,
   className
 }: MetricChartProps) {
   const points = values
@@ -69,12 +108,18 @@ export default function MetricChart({
     ...points.map((point) => point.x),
     ...referencePoints.map((point) => point.x),
     highlightPoint?.x,
-    ...(events ?? []).map((event) => event.x)
+    targetRange?.x,
+    ...(boneAgePoints ?? []).map((point) => point.boneAge),
+    ...(events ?? []).map((event) => event.x),
+    ...(treatmentSpans ?? []).flatMap((span) => [span.start, span.end]),
+    ...(pubertyMarks ?? []).map((mark) => mark.x)
   ].filter((value): value is number => Number.isFinite(value));
   const allY = [
     ...points.map((point) => point.y),
     ...referencePoints.map((point) => point.y),
-    highlightPoint?.y
+    highlightPoint?.y,
+    targetRange?.min,
+    targetRange?.max
   ].filter((value): value is number => Number.isFinite(value));
 
   let xMin = xRange?.min ?? Math.min(...allX);
@@ -129,6 +174,14 @@ export default function MetricChart({
 
   const axisY = height - padding.bottom;
 
+  const spanRects = (treatmentSpans ?? [])
+    .map((span) => ({
+      ...span,
+      left: xFor(Math.max(span.start, xMin)),
+      right: xFor(Math.min(span.end, xMax))
+    }))
+    .filter((span) => span.right > span.left);
+
   return (
     <svg
       viewBox={`0 0 ${width} ${height}`}
@@ -144,12 +197,12 @@ export default function MetricChart({
             x2={width - padding.right}
             y1={row.y}
             y2={row.y}
-            className="chart-grid"
+            {...chartStyleProps("chart-grid")}
           />
           <text
             x={padding.left - 10}
             y={row.y + 4}
-            className="chart-label"
+            {...chartStyleProps("chart-label")}
             textAnchor="end"
           >
             {row.value.toFixed(1)}
@@ -157,6 +210,31 @@ export default function MetricChart({
         </g>
       ))}
 
+      {spanRects.map((span, index) => (
+        <g
+          key={`treatment-${index}`}
+          {...chartStyleProps(
+            span.type === "growth" ? "chart-treatment-growth" : "chart-treatment-suppression"
+          )}
+        >
+          <rect
+            x={span.left}
+            y={padding.top}
+            width={span.right - span.left}
+            height={plotHeight}
+            {...chartStyleProps("chart-treatment")}
+          />
+          <text
+            x={span.left + 4}
+            y={padding.top + 12 + (index % 2) * 12}
+            {...chartStyleProps("chart-event-label")}
+            textAnchor="start"
+          >
+            {span.label}
+          </text>
+        </g>
+      ))}
+
       {curvePaths.map((curve) => {
         const curveClass =
           curve.key === "50th"
@@ -164,7 +242,7 @@ export default function MetricChart({
             : curve.key === "3rd" || curve.key === "97th"
             ? "chart-percentile mid"
             : "chart-percentile";
-        return <path key={`curve-${curve.key}`} d={curve.d} className={curveClass} />;
+        return <path key={`curve-${curve.key}`} d={curve.d} {...chartStyleProps(curveClass)} />;
       })}
 
       <line
@@ -172,13 +250,13 @@ export default function MetricChart({
         x2={width - padding.right}
         y1={axisY}
         y2={axisY}
-        className="chart-axis"
+        {...chartStyleProps("chart-axis")}
       />
 
       {points.length > 0 && (
         <path
           d={pathD}
-          className={`chart-line ${metric === "weight" ? "weight" : ""}`}
+          {...chartStyleProps(`chart-line ${metric === "height" ? "" : metric}`)}
           pathLength={1}
         />
       )}
@@ -189,20 +267,75 @@ export default function MetricChart({
           cx={xFor(point.x)}
           cy={yFor(point.y)}
           r={4}
-          className="chart-dot"
-          style={{ animationDelay: `${index * 0.08}s` }}
+          {...chartStyleProps("chart-dot", { animationDelay: `${index * 0.08}s` })}
         />
       ))}
 
+      {boneAgePoints
+        ?.filter((point) => point.boneAge >= xMin && point.boneAge <= xMax)
+        .map((point, index) => (
+          <g key={`bone-age-${index}`} className="chart-bone-age">
+            <line
+              x1={xFor(point.x)}
+              x2={xFor(point.boneAge)}
+              y1={yFor(point.y)}
+              y2={yFor(point.y)}
+              {...chartStyleProps("chart-bone-age-link")}
+            />
+            <circle
+              cx={xFor(point.boneAge)}
+              cy={yFor(point.y)}
+              r={4}
+              {...chartStyleProps("chart-bone-age-dot")}
+            />
+          </g>
+        ))}
+
       {highlightPoint && (
         <circle
           cx={xFor(highlightPoint.x)}
           cy={yFor(highlightPoint.y)}
           r={5.2}
-          className="chart-current"
+          {...chartStyleProps("chart-current")}
         />
       )}
 
+      {targetRange && targetRange.x >= xMin && targetRange.x <= xMax && (
+        <g className="chart-target">
+          <line
+            x1={xFor(targetRange.x)}
+            x2={xFor(targetRange.x)}
+            y1={yFor(targetRange.min)}
+            y2={yFor(targetRange.max)}
+            {...chartStyleProps("chart-target-bar")}
+          />
+          {[targetRange.min, targetRange.max].map((value) => (
+            <line
+              key={`target-cap-${value}`}
+              x1={xFor(targetRange.x) - 6}
+              x2={xFor(targetRange.x) + 6}
+              y1={yFor(value)}
+              y2={yFor(value)}
+              {...chartStyleProps("chart-target-bar")}
+            />
+          ))}
+          <circle
+            cx={xFor(targetRange.x)}
+            cy={yFor(targetRange.value)}
+            r={4.5}
+            {...chartStyleProps("chart-target-point")}
+          />
+          <text
+            x={xFor(targetRange.x) - 10}
+            y={yFor(targetRange.max) + 4}
+            {...chartStyleProps("chart-event-label")}
+            textAnchor="end"
+          >
+            {targetRange.label}
+          </text>
+        </g>
+      )}
+
       {events?.map((event, index) => {
         const arrowSize = 6;
         const x = xFor(event.x) + (event.offset ?? 0);
@@ -219,22 +352,60 @@ export default function MetricChart({
         return (
           <g
             key={`event-${index}`}
-            className={event.type === "growth" ? "chart-event-growth" : "chart-event-suppression"}
+            {...chartStyleProps(
+              event.type === "growth" ? "chart-event-growth" : "chart-event-suppression"
+            )}
           >
-            <polygon points={points} className="chart-event" />
-            <text x={x} y={labelY} className="chart-event-label" textAnchor="middle">
+            <polygon points={points} {...chartStyleProps("chart-event")} />
+            <text x={x} y={labelY} {...chartStyleProps("chart-event-label")} textAnchor="middle">
               {event.label}
             </text>
           </g>
         );
       })}
 
+      {pubertyMarks
+        ?.filter((mark) => mark.x >= xMin && mark.x <= xMax)
+        .map((mark, index) => (
+          <g
+            key={`puberty-${index}`}
+            {...chartStyleProps(`chart-puberty ${mark.early ? "early" : ""}`)}
+          >
+            <line
+              x1={xFor(mark.x)}
+              x2={xFor(mark.x)}
+              y1={padding.top}
+              y2={axisY}
+              {...chartStyleProps("chart-puberty-line")}
+            />
+            <text
+              x={xFor(mark.x)}
+              y={padding.top - 6 + (index % 2) * 10}
+              {...chartStyleProps("chart-puberty-label")}
+              textAnchor="middle"
+            >
+              {mark.label}
+            </text>
+          </g>
+        ))}
+
+      {xAxisLabel && (
+        <text
+          x={padding.left + plotWidth / 2}
+          y={height - 10}
+          {...chartStyleProps("chart-label")}
+          textAnchor="middle"
+        >
+          {xAxisLabel}
+        </text>
+      )}
+
       {(xLabelFormatter || labels.length >= 2) && (
         <>
           <text
             x={padding.left}
             y={height - 10}
-            className="chart-label"
+            {...chartStyleProps("chart-label")}
             textAnchor="start"
           >
             {xLabelFormatter ? xLabelFormatter(xMin) : labels[0]}
@@ -242,7 +413,7 @@ export default function MetricChart({
           <text
             x={width - padding.right}
             y={height - 10}
-            className="chart-label"
+            {...chartStyleProps("chart-label")}
             textAnchor="end"
           >
             {xLabelFormatter ? xLabelFormatter(xMax) : labels[labels.length - 1]}
@@ -0,0 +1,129 @@
+"use client";
+
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import React, { createContext, useContext, useEffect, useState } from "react";
+import { ApiError, requestJson } from "../lib/apiClient";
+import { hasPermission, staffRoleLabels } from "../lib/permissions";
+import type { StaffProfile } from "../lib/records";
+import { isSupabaseConfigured, supabase } from "../lib/supabaseClient";
+
+const StaffContext = createContext<StaffProfile | null>(null);
+
+export function useStaff() {
+  return useContext(StaffContext);
+}
+
+export default function SessionGate({ children }: { children: React.ReactNode }) {
+  const router = useRouter();
+  const [staff, setStaff] = useState<StaffProfile | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let active = true;
+
+    const loadStaff = async () => {
+      const { data } = await supabase.auth.getSession();
+      if (!data.session) {
+        router.replace("/login");
+        return;
+      }
+      try {
+        const { staff: profile } = await requestJson<{ staff: StaffProfile }>("/api/session");
+        if (active) {
+          setStaff(profile);
+        }
+      } catch (loadError) {
+        if (loadError instanceof ApiError && loadError.status === 401) {
+          router.replace("/login");
+          return;
+        }
+        if (active) {
+          setError(
+            loadError instanceof ApiError
+              ? loadError.message
+              : "직원 정보를 불러오지 못했습니다. 잠시 후 다시 시도해주세요."
+          );
+        }
+      }
+    };
+
+    if (!isSupabaseConfigured) {
+      setError("Supabase 환경 변수가 필요합니다. `.env.local`을 설정해주세요.");
+      return;
+    }
+
+    loadStaff();
+    const { data: subscription } = supabase.auth.onAuthStateChange((event) => {
+      if (event === "SIGNED_OUT") {
+        router.replace("/login");
+      }
+    });
+
+    return () => {
+      active = false;
+      subscription.subscription.unsubscribe();
+    };
+  }, [router]);
+
+  const handleSignOut = async () => {
+    await supabase.auth.signOut();
+  };
+
+  if (!staff) {
+    return (
+      <div className="mx-auto flex min-h-screen max-w-md flex-col items-center justify-center gap-4 px-6 text-center">
+        <p className="text-sm text-muted">{error ?? "로그인 정보를 확인하는 중입니다..."}</p>
+        {error && (
+          <button
+            type="button"
+            onClick={handleSignOut}
+            className="rounded-full border border-outline px-5 py-2 text-sm font-medium text-ink transition hover:-translate-y-0.5"
+          >
+            로그아웃
+          </button>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <StaffContext.Provider value={staff}>
+      <div className="no-print mx-auto flex max-w-6xl items-center justify-end gap-3 px-6 pt-4 text-xs text-muted">
+        <span>
+          {staff.clinicName} · {staff.name} ({staffRoleLabels[staff.role]})
+        </span>
+        {hasPermission(staff.role, "manageStaff") && (
+          <Link
+            href="/staff"
+            className="rounded-full border border-outline/60 px-3 py-1 text-ink transition hover:-translate-y-0.5"
+          >
+            직원 관리
+          </Link>
+        )}
+        <Link
+          href="/alerts"
+          className="rounded-full border border-outline/60 px-3 py-1 text-ink transition hover:-translate-y-0.5"
+        >
+          알림 기준
+        </Link>
+        {hasPermission(staff.role, "manageTrash") && (
+          <Link
+            href="/trash"
+            className="rounded-full border border-outline/60 px-3 py-1 text-ink transition hover:-translate-y-0.5"
+          >
+            휴지통
+          </Link>
+        )}
+        <button
+          type="button"
+          onClick={handleSignOut}
+          className="rounded-full border border-outline/60 px-3 py-1 text-ink transition hover:-translate-y-0.5"
+        >
+          로그아웃
+        </button>
+      </div>
+      {children}
+    </StaffContext.Provider>
+  );
+}
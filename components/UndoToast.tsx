@@ -0,0 +1,42 @@
+import React, { useEffect } from "react";
+
+type UndoToastProps = {
+  message: string;
+  disabled?: boolean;
+  onUndo: () => void;
+  onClose: () => void;
+};
+
+const UNDO_TIMEOUT_MS = 8000;
+
+export default function UndoToast({ message, disabled, onUndo, onClose }: UndoToastProps) {
+  useEffect(() => {
+    const timer = window.setTimeout(onClose, UNDO_TIMEOUT_MS);
+    return () => window.clearTimeout(timer);
+  }, [message, onClose]);
+
+  return (
+    <div
+      role="status"
+      className="no-print fixed bottom-6 left-1/2 z-50 flex -translate-x-1/2 items-center gap-4 rounded-full bg-ink px-5 py-3 text-sm text-white shadow-glow animate-[rise_0.3s_ease]"
+    >
+      <span>{message}</span>
+      <button
+        type="button"
+        onClick={onUndo}
+        disabled={disabled}
+        className="font-semibold text-accent transition hover:opacity-80 disabled:opacity-50"
+      >
+        실행 취소
+      </button>
+      <button
+        type="button"
+        onClick={onClose}
+        aria-label="닫기"
+        className="text-white/70 transition hover:text-white"
+      >
+        ✕
+      </button>
+    </div>
+  );
+}
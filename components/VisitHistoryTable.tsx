@@ -0,0 +1,326 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { formatAge, formatDate } from "../lib/format";
+import {
+  bmiStatus,
+  correctAgeMonths,
+  evaluateGrowth,
+  GrowthEvaluation,
+  GrowthTable
+} from "../lib/growth";
+import { formatTannerStage } from "../lib/puberty";
+import type { Visit } from "../lib/records";
+
+type SortKey =
+  | "date"
+  | "age"
+  | "height"
+  | "weight"
+  | "bmi"
+  | "heightPercentile"
+  | "weightPercentile"
+  | "bmiPercentile";
+
+type InjectionFilter = "all" | "growth" | "suppression" | "none";
+
+type HistoryRow = {
+  visit: Visit;
+  height: GrowthEvaluation | null;
+  weight: GrowthEvaluation | null;
+  bmi: GrowthEvaluation | null;
+};
+
+type VisitHistoryTableProps = {
+  visits: Visit[];
+  heightTable: GrowthTable | null;
+  weightTable: GrowthTable | null;
+  bmiTable: GrowthTable | null;
+  sexKey: string | null;
+  gestationalAgeDays: number | null;
+  editingVisitId: string | null;
+  disabled?: boolean;
+  onEdit?: (visit: Visit) => void;
+  onDelete?: (visitId: string) => void;
+};
+
+const PAGE_SIZE = 10;
+
+const columns: { key: SortKey; label: string }[] = [
+  { key: "date", label: "검사일" },
+  { key: "age", label: "나이" },
+  { key: "height", label: "키 (cm)" },
+  { key: "heightPercentile", label: "키 백분위" },
+  { key: "weight", label: "몸무게 (kg)" },
+  { key: "weightPercentile", label: "몸무게 백분위" },
+  { key: "bmi", label: "BMI" },
+  { key: "bmiPercentile", label: "BMI 백분위" }
+];
+
+const injectionFilterLabels: Record<InjectionFilter, string> = {
+  all: "전체",
+  growth: "성장주사",
+  suppression: "억제주사",
+  none: "주사 없음"
+};
+
+function sortValue(row: HistoryRow, key: SortKey) {
+  switch (key) {
+    case "date":
+      return new Date(row.visit.date).getTime();
+    case "age":
+      return row.visit.ageMonths;
+    case "height":
+      return row.visit.height;
+    case "weight":
+      return row.visit.weight;
+    case "bmi":
+      return row.visit.bmi;
+    case "heightPercentile":
+      return row.height?.percentile ?? null;
+    case "weightPercentile":
+      return row.weight?.percentile ?? null;
+    case "bmiPercentile":
+      return row.bmi?.percentile ?? null;
+  }
+}
+
+function matchesInjection(visit: Visit, filter: InjectionFilter) {
+  switch (filter) {
+    case "all":
+      return true;
+    case "growth":
+      return visit.growthInjection;
+    case "suppression":
+      return visit.suppressionInjection;
+    case "none":
+      return !visit.growthInjection && !visit.suppressionInjection;
+  }
+}
+
+function formatPercentile(evaluation: GrowthEvaluation | null) {
+  return evaluation ? evaluation.percentile.toFixed(1) : "—";
+}
+
+export default function VisitHistoryTable({
+  visits,
+  heightTable,
+  weightTable,
+  bmiTable,
+  sexKey,
+  gestationalAgeDays,
+  editingVisitId,
+  disabled,
+  onEdit,
+  onDelete
+}: VisitHistoryTableProps) {
+  const [sortKey, setSortKey] = useState<SortKey>("date");
+  const [sortAscending, setSortAscending] = useState(false);
+  const [injectionFilter, setInjectionFilter] = useState<InjectionFilter>("all");
+  const [page, setPage] = useState(0);
+  const hasActions = Boolean(onEdit || onDelete);
+
+  const rows = useMemo<HistoryRow[]>(
+    () =>
+      visits.map((visit) => {
+        const age = correctAgeMonths(visit.ageMonths, gestationalAgeDays);
+        return {
+          visit,
+          height: evaluateGrowth(heightTable, sexKey, age, visit.height),
+          weight: evaluateGrowth(weightTable, sexKey, age, visit.weight),
+          bmi: evaluateGrowth(bmiTable, sexKey, age, visit.bmi)
+        };
+      }),
+    [visits, heightTable, weightTable, bmiTable, sexKey, gestationalAgeDays]
+  );
+
+  const sortedRows = useMemo(() => {
+    const direction = sortAscending ? 1 : -1;
+    return rows
+      .filter((row) => matchesInjection(row.visit, injectionFilter))
+      .sort((a, b) => {
+        const left = sortValue(a, sortKey);
+        const right = sortValue(b, sortKey);
+        if (left === null || right === null) {
+          return left === right ? 0 : left === null ? 1 : -1;
+        }
+        return (left - right) * direction;
+      });
+  }, [rows, injectionFilter, sortKey, sortAscending]);
+
+  const pageCount = Math.max(1, Math.ceil(sortedRows.length / PAGE_SIZE));
+  const currentPage = Math.min(page, pageCount - 1);
+  const pageRows = sortedRows.slice(currentPage * PAGE_SIZE, (currentPage + 1) * PAGE_SIZE);
+
+  useEffect(() => {
+    setPage(0);
+  }, [injectionFilter, sortKey, sortAscending]);
+
+  const handleSort = (key: SortKey) => {
+    if (key === sortKey) {
+      setSortAscending((prev) => !prev);
+      return;
+    }
+    setSortKey(key);
+    setSortAscending(key !== "date");
+  };
+
+  if (!visits.length) {
+    return <p className="mt-4 text-sm text-muted">저장된 방문 기록이 없습니다.</p>;
+  }
+
+  return (
+    <div className="mt-4 space-y-4">
+      <div className="no-print flex flex-wrap items-center gap-2 text-xs">
+        {(Object.keys(injectionFilterLabels) as InjectionFilter[]).map((filter) => (
+          <button
+            key={filter}
+            type="button"
+            onClick={() => setInjectionFilter(filter)}
+            className={`rounded-full border px-3 py-1 transition ${
+              injectionFilter === filter
+                ? "border-accent2 bg-accent2/10 text-ink"
+                : "border-outline/60 bg-white/70 text-muted hover:text-ink"
+            }`}
+          >
+            {injectionFilterLabels[filter]}
+          </button>
+        ))}
+        <span className="ml-auto text-muted">총 {sortedRows.length}건</span>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-left text-sm">
+          <thead className="text-xs text-muted">
+            <tr>
+              {columns.map((column) => (
+                <th key={column.key} className="px-3 py-2 font-medium">
+                  <button
+                    type="button"
+                    onClick={() => handleSort(column.key)}
+                    className="inline-flex items-center gap-1 transition hover:text-ink"
+                  >
+                    {column.label}
+                    {sortKey === column.key && <span>{sortAscending ? "▲" : "▼"}</span>}
+                  </button>
+                </th>
+              ))}
+              <th className="px-3 py-2 font-medium">태너</th>
+              <th className="px-3 py-2 font-medium">주사</th>
+              {hasActions && <th className="no-print px-3 py-2" />}
+            </tr>
+          </thead>
+          <tbody>
+            {pageRows.map(({ visit, height, weight, bmi }) => (
+              <tr
+                key={visit.id}
+                className={`border-t border-outline/60 ${
+                  editingVisitId === visit.id ? "bg-white/90" : ""
+                }`}
+              >
+                <td className="px-3 py-3 font-semibold text-ink">{formatDate(visit.date)}</td>
+                <td className="px-3 py-3 text-muted">{formatAge(visit.ageMonths)}</td>
+                <td className="px-3 py-3 text-ink">{visit.height.toFixed(1)}</td>
+                <td className="px-3 py-3 text-muted">{formatPercentile(height)}</td>
+                <td className="px-3 py-3 text-ink">{visit.weight.toFixed(1)}</td>
+                <td className="px-3 py-3 text-muted">{formatPercentile(weight)}</td>
+                <td className="px-3 py-3 text-ink">
+                  {visit.bmi.toFixed(1)} <span className="text-xs text-muted">({bmiStatus(bmi)})</span>
+                </td>
+                <td className="px-3 py-3 text-muted">{formatPercentile(bmi)}</td>
+                <td className="px-3 py-3 text-xs text-muted">
+                  {formatTannerStage(visit, sexKey) || "—"}
+                </td>
+                <td className="px-3 py-3 text-xs text-muted">
+                  {[visit.growthInjection && "성장", visit.suppressionInjection && "억제"]
+                    .filter(Boolean)
+                    .join(" · ") || "—"}
+                </td>
+                {hasActions && (
+                  <td className="no-print px-3 py-3">
+                    <div className="flex items-center justify-end gap-2">
+                      {onEdit && (
+                        <button
+                          type="button"
+                          onClick={() => onEdit(visit)}
+                          disabled={disabled}
+                          title="방문 기록 수정"
+                          aria-label="방문 기록 수정"
+                          className="rounded-full border border-outline/60 bg-white/80 p-2 text-ink transition hover:-translate-y-0.5 hover:text-accent2 disabled:cursor-not-allowed disabled:opacity-50"
+                        >
+                          <svg
+                            viewBox="0 0 24 24"
+                            fill="none"
+                            stroke="currentColor"
+                            strokeWidth="1.7"
+                            strokeLinecap="round"
+                            strokeLinejoin="round"
+                            className="h-4 w-4"
+                          >
+                            <path d="M12 20h9" />
+                            <path d="M16.5 3.5a2.121 2.121 0 1 1 3 3L7 19l-4 1 1-4L16.5 3.5z" />
+                          </svg>
+                        </button>
+                      )}
+                      {onDelete && (
+                        <button
+                          type="button"
+                          onClick={() => onDelete(visit.id)}
+                          disabled={disabled}
+                          title="방문 기록 삭제"
+                          aria-label="방문 기록 삭제"
+                          className="rounded-full border border-outline/60 bg-white/80 p-2 text-ink transition hover:-translate-y-0.5 hover:text-rose-600 disabled:cursor-not-allowed disabled:opacity-50"
+                        >
+                          <svg
+                            viewBox="0 0 24 24"
+                            fill="none"
+                            stroke="currentColor"
+                            strokeWidth="1.7"
+                            strokeLinecap="round"
+                            strokeLinejoin="round"
+                            className="h-4 w-4"
+                          >
+                            <path d="M3 6h18" />
+                            <path d="M8 6V4h8v2" />
+                            <path d="M19 6l-1 14H6L5 6" />
+                            <path d="M10 11v6" />
+                            <path d="M14 11v6" />
+                          </svg>
+                        </button>
+                      )}
+                    </div>
+                  </td>
+                )}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {!pageRows.length && (
+          <p className="mt-4 text-sm text-muted">조건에 맞는 방문 기록이 없습니다.</p>
+        )}
+      </div>
+
+      {pageCount > 1 && (
+        <div className="no-print flex items-center justify-center gap-3 text-sm">
+          <button
+            type="button"
+            onClick={() => setPage(Math.max(0, currentPage - 1))}
+            disabled={currentPage === 0}
+            className="rounded-full border border-outline/60 bg-white/80 px-4 py-1 text-ink transition hover:-translate-y-0.5 disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            이전
+          </button>
+          <span className="text-muted">
+            {currentPage + 1} / {pageCount}
+          </span>
+          <button
+            type="button"
+            onClick={() => setPage(Math.min(pageCount - 1, currentPage + 1))}
+            disabled={currentPage >= pageCount - 1}
+            className="rounded-full border border-outline/60 bg-white/80 px-4 py-1 text-ink transition hover:-translate-y-0.5 disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            다음
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
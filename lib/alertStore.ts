@@ -0,0 +1,120 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import {
+  AlertContext,
+  AlertTables,
+  AlertThresholds,
+  defaultAlertThresholds,
+  evaluateVisitAlerts,
+  GrowthAlert
+} from "./alerts";
+import { DEFAULT_GROWTH_REFERENCE, GrowthReference } from "./growth";
+import { loadGrowthTable } from "./growthTables";
+import { listVisits, updateVisitAlerts } from "./patientStore";
+import type { PatientRow, Visit } from "./records";
+import type { VisitRecord } from "./validation";
+
+export async function getAlertThresholds(supabase: SupabaseClient): Promise<AlertThresholds> {
+  const { data, error } = await supabase.from("alert_settings").select("thresholds").maybeSingle();
+  if (error) {
+    throw error;
+  }
+  // Thresholds added after a clinic saved its settings fall back to the defaults.
+  return { ...defaultAlertThresholds, ...((data?.thresholds as Partial<AlertThresholds>) ?? {}) };
+}
+
+export async function saveAlertThresholds(
+  supabase: SupabaseClient,
+  clinicId: string,
+  thresholds: AlertThresholds
+) {
+  const { error } = await supabase
+    .from("alert_settings")
+    .upsert({ clinic_id: clinicId, thresholds, updated_at: new Date().toISOString() });
+  if (error) {
+    throw error;
+  }
+  return thresholds;
+}
+
+export async function loadAlertTables(
+  reference: GrowthReference = DEFAULT_GROWTH_REFERENCE
+): Promise<AlertTables> {
+  const [height, weight] = await Promise.all([
+    loadGrowthTable("height", reference),
+    loadGrowthTable("weight", reference)
+  ]);
+  return { height, weight };
+}
+
+async function loadAlertContext(
+  supabase: SupabaseClient,
+  patient: PatientRow
+): Promise<[Visit[], AlertContext]> {
+  const [visits, thresholds, tables] = await Promise.all([
+    listVisits(supabase, patient.id),
+    getAlertThresholds(supabase),
+    loadAlertTables(patient.growth_reference)
+  ]);
+  return [
+    visits,
+    {
+      tables,
+      thresholds,
+      sexKey: patient.sex,
+      gestationalAgeDays: patient.gestational_age_days
+    }
+  ];
+}
+
+// Alerts are evaluated when a visit is saved and stored with it, using the clinic's thresholds
+// and the patient's growth reference at that moment.
+export async function evaluateRecordAlerts(
+  supabase: SupabaseClient,
+  patient: PatientRow,
+  record: VisitRecord,
+  visitId: string | null
+): Promise<GrowthAlert[]> {
+  const [visits, context] = await loadAlertContext(supabase, patient);
+  const target: Visit = {
+    id: visitId ?? "",
+    date: record.visitTimestamp,
+    height: record.height,
+    weight: record.weight,
+    headCircumference: record.headCircumference,
+    bmi: record.bmi,
+    ageMonths: record.ageMonths,
+    growthInjection: record.growthInjection,
+    suppressionInjection: record.suppressionInjection,
+    treatmentId: record.treatmentId,
+    tannerBreastGenital: record.tannerBreastGenital,
+    tannerPubicHair: record.tannerPubicHair,
+    testicularVolume: record.testicularVolume,
+    alerts: []
+  };
+  return evaluateVisitAlerts(
+    [...visits.filter((visit) => visit.id !== target.id), target],
+    target,
+    context
+  );
+}
+
+// A visit's alerts compare it with the visits before it, so adding, editing, deleting or restoring
+// a visit re-evaluates the stored alerts of every visit dated from that point on.
+export async function refreshVisitAlerts(
+  supabase: SupabaseClient,
+  patient: PatientRow,
+  from: string
+) {
+  const [visits, context] = await loadAlertContext(supabase, patient);
+  const start = new Date(from).getTime();
+  await Promise.all(
+    visits
+      .filter((visit) => new Date(visit.date).getTime() >= start)
+      .map((visit) => {
+        const alerts = evaluateVisitAlerts(visits, visit, context);
+        return JSON.stringify(alerts) === JSON.stringify(visit.alerts)
+          ? null
+          : updateVisitAlerts(supabase, visit.id, alerts);
+      })
+  );
+}
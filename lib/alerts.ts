@@ -0,0 +1,229 @@
+import {
+  computeHeightVelocity,
+  correctAgeMonths,
+  evaluateGrowth,
+  findVelocityBaseline,
+  GrowthTable,
+  tableCoverage
+} from "./growth";
+import type { Visit } from "./records";
+
+export type GrowthAlertRule =
+  | "percentile-crossing"
+  | "z-score-drop"
+  | "short-stature"
+  | "low-velocity"
+  | "rapid-weight-gain"
+  | "reference-unavailable";
+
+export type GrowthAlert = {
+  rule: GrowthAlertRule;
+  message: string;
+};
+
+export type AlertThresholds = {
+  percentileLinesCrossed: number;
+  crossingWindowMonths: number;
+  zScoreDrop: number;
+  shortStaturePercentile: number;
+  minVelocity: number;
+  weightGainZScore: number;
+};
+
+export type AlertTables = {
+  height: GrowthTable | null;
+  weight: GrowthTable | null;
+};
+
+export type AlertSettings = {
+  tables: AlertTables;
+  thresholds: AlertThresholds;
+};
+
+export type AlertContext = AlertSettings & {
+  sexKey: string | null;
+  gestationalAgeDays: number | null;
+};
+
+export const growthAlertLabels: Record<GrowthAlertRule, string> = {
+  "percentile-crossing": "백분위선 하향 교차",
+  "z-score-drop": "키 Z점수 하락",
+  "short-stature": "저신장",
+  "low-velocity": "성장속도 저하",
+  "rapid-weight-gain": "급격한 체중 증가",
+  "reference-unavailable": "키 평가 불가"
+};
+
+export const defaultAlertThresholds: AlertThresholds = {
+  percentileLinesCrossed: 2,
+  crossingWindowMonths: 12,
+  zScoreDrop: 1,
+  shortStaturePercentile: 3,
+  minVelocity: 4,
+  weightGainZScore: 0.67
+};
+
+export const alertThresholdFields: {
+  key: keyof AlertThresholds;
+  label: string;
+  unit: string;
+  min: number;
+  max: number;
+  step: number;
+}[] = [
+  {
+    key: "percentileLinesCrossed",
+    label: "하향 교차한 주요 백분위선",
+    unit: "개 이상",
+    min: 1,
+    max: 6,
+    step: 1
+  },
+  {
+    key: "crossingWindowMonths",
+    label: "백분위선 교차 비교 기간",
+    unit: "개월 이내 방문과 비교",
+    min: 1,
+    max: 36,
+    step: 1
+  },
+  {
+    key: "zScoreDrop",
+    label: "직전 방문 대비 키 Z점수 하락",
+    unit: "SD 초과",
+    min: 0.1,
+    max: 3,
+    step: 0.1
+  },
+  {
+    key: "shortStaturePercentile",
+    label: "저신장 기준 키 백분위",
+    unit: "백분위 미만",
+    min: 0.1,
+    max: 50,
+    step: 0.1
+  },
+  {
+    key: "minVelocity",
+    label: "최소 성장속도",
+    unit: "cm/년 미만",
+    min: 0.5,
+    max: 10,
+    step: 0.1
+  },
+  {
+    key: "weightGainZScore",
+    label: "직전 방문 대비 몸무게 Z점수 상승",
+    unit: "SD 초과",
+    min: 0.1,
+    max: 3,
+    step: 0.01
+  }
+];
+
+// Major lines of the printed charts; crossing counts the lines passed since the earliest visit
+// within the comparison window, so a slow drop over several visits is caught too.
+export const MAJOR_PERCENTILE_LINES = [3, 10, 25, 50, 75, 90, 97];
+
+function formatPercentile(percentile: number) {
+  return `P${percentile < 1 ? percentile.toFixed(1) : Math.round(percentile)}`;
+}
+
+export function evaluateVisitAlerts(
+  visits: Visit[],
+  target: Visit,
+  { tables, sexKey, gestationalAgeDays, thresholds }: AlertContext
+): GrowthAlert[] {
+  const sorted = [...visits].sort(
+    (a, b) => new Date(a.date).getTime() - new Date(b.date).getTime()
+  );
+  const index = sorted.findIndex((visit) => visit.id === target.id);
+  const previous = index > 0 ? sorted[index - 1] : null;
+  const evaluate = (table: GrowthTable | null, visit: Visit, value: number) =>
+    evaluateGrowth(table, sexKey, correctAgeMonths(visit.ageMonths, gestationalAgeDays), value);
+
+  const alerts: GrowthAlert[] = [];
+  const coverage = tableCoverage(
+    tables.height,
+    sexKey,
+    correctAgeMonths(target.ageMonths, gestationalAgeDays)
+  );
+  // Without this the height rules below would pass silently.
+  if (coverage !== "covered") {
+    alerts.push({
+      rule: "reference-unavailable",
+      message:
+        coverage === "unavailable"
+          ? "성장 기준표가 없어 키 백분위 알림을 확인할 수 없습니다."
+          : "나이가 성장 기준표 범위 밖이라 키 백분위 알림을 확인할 수 없습니다."
+    });
+  }
+  const height = evaluate(tables.height, target, target.height);
+  const previousHeight = previous ? evaluate(tables.height, previous, previous.height) : null;
+  const windowStart = sorted
+    .slice(0, Math.max(index, 0))
+    .find((visit) => target.ageMonths - visit.ageMonths <= thresholds.crossingWindowMonths);
+  const windowStartHeight = windowStart
+    ? evaluate(tables.height, windowStart, windowStart.height)
+    : null;
+
+  if (height && windowStart && windowStartHeight) {
+    const crossed = MAJOR_PERCENTILE_LINES.filter(
+      (line) => height.percentile < line && windowStartHeight.percentile >= line
+    ).length;
+    if (crossed >= thresholds.percentileLinesCrossed) {
+      alerts.push({
+        rule: "percentile-crossing",
+        message: `최근 ${Math.round(
+          target.ageMonths - windowStart.ageMonths
+        )}개월 사이 키 백분위가 주요 백분위선 ${crossed}개를 넘어 하락했습니다. (${formatPercentile(
+          windowStartHeight.percentile
+        )} → ${formatPercentile(height.percentile)})`
+      });
+    }
+  }
+
+  if (height && previousHeight) {
+    const drop = previousHeight.zScore - height.zScore;
+    if (drop > thresholds.zScoreDrop) {
+      alerts.push({
+        rule: "z-score-drop",
+        message: `키 Z점수가 직전 방문보다 ${drop.toFixed(2)} 낮아졌습니다.`
+      });
+    }
+  }
+
+  if (height && height.percentile < thresholds.shortStaturePercentile) {
+    alerts.push({
+      rule: "short-stature",
+      message: `키가 ${thresholds.shortStaturePercentile} 백분위 미만입니다. (${formatPercentile(
+        height.percentile
+      )})`
+    });
+  }
+
+  const baseline = findVelocityBaseline(sorted.slice(0, Math.max(index, 0)), target);
+  const velocity = baseline ? computeHeightVelocity(baseline, target) : null;
+  if (velocity && velocity.velocity < thresholds.minVelocity) {
+    alerts.push({
+      rule: "low-velocity",
+      message: `연간 성장속도가 ${velocity.velocity.toFixed(1)} cm/년으로 ${
+        thresholds.minVelocity
+      } cm/년 미만입니다.`
+    });
+  }
+
+  const weight = evaluate(tables.weight, target, target.weight);
+  const previousWeight = previous ? evaluate(tables.weight, previous, previous.weight) : null;
+  if (weight && previousWeight) {
+    const gain = weight.zScore - previousWeight.zScore;
+    if (gain > thresholds.weightGainZScore) {
+      alerts.push({
+        rule: "rapid-weight-gain",
+        message: `몸무게 Z점수가 직전 방문보다 ${gain.toFixed(2)} 높아졌습니다.`
+      });
+    }
+  }
+
+  return alerts;
+}
@@ -0,0 +1,51 @@
+import { supabase } from "./supabaseClient";
+
+export class ApiError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = "ApiError";
+    this.status = status;
+  }
+}
+
+type RequestOptions = { method?: string; body?: unknown };
+
+async function sendRequest(url: string, options: RequestOptions) {
+  const { data: sessionData } = await supabase.auth.getSession();
+  const headers: Record<string, string> = {};
+  if (sessionData.session) {
+    headers.Authorization = `Bearer ${sessionData.session.access_token}`;
+  }
+  if (options.body !== undefined) {
+    headers["Content-Type"] = "application/json";
+  }
+  return fetch(url, {
+    method: options.method ?? "GET",
+    headers,
+    body: options.body !== undefined ? JSON.stringify(options.body) : undefined
+  });
+}
+
+export async function requestJson<T>(url: string, options: RequestOptions = {}): Promise<T> {
+  const response = await sendRequest(url, options);
+  const data = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new ApiError(data?.error ?? "Request failed", response.status);
+  }
+  return data as T;
+}
+
+export async function requestBlob(url: string, options: RequestOptions = {}) {
+  const response = await sendRequest(url, options);
+  if (!response.ok) {
+    const data = await response.json().catch(() => null);
+    throw new ApiError(data?.error ?? "Request failed", response.status);
+  }
+  return response.blob();
+}
+
+export function errorMessage(error: unknown, fallback: string) {
+  return error instanceof ApiError && error.status < 500 ? error.message : fallback;
+}
@@ -0,0 +1,18 @@
+import { NextResponse } from "next/server";
+
+export function errorResponse(message: string, status: number) {
+  return NextResponse.json({ error: message }, { status });
+}
+
+export function notConfiguredResponse() {
+  return errorResponse("Supabase 환경 변수를 설정해주세요.", 503);
+}
+
+export function hashKeyMissingResponse() {
+  return errorResponse("RESIDENT_ID_HASH_KEY 환경 변수를 설정해주세요.", 503);
+}
+
+export function serverErrorResponse(error: unknown) {
+  console.error(error);
+  return errorResponse("요청을 처리하지 못했습니다. 잠시 후 다시 시도해주세요.", 500);
+}
@@ -0,0 +1,106 @@
+import { formatAge, formatDate, formatGestationalAge } from "./format";
+import { growthReferenceLabels, isGrowthReference } from "./growth";
+import type { AuditAction, AuditEntry, AuditTable } from "./records";
+
+export type AuditChange = {
+  field: string;
+  label: string;
+  before: string;
+  after: string;
+};
+
+export const auditActionLabels: Record<AuditAction, string> = {
+  insert: "생성",
+  update: "수정",
+  delete: "삭제",
+  restore: "복원",
+  purge: "영구 삭제"
+};
+
+export const auditTableLabels: Record<AuditTable, string> = {
+  patients: "환자 정보",
+  visits: "방문 기록"
+};
+
+const auditFieldLabels: Record<AuditTable, Record<string, string>> = {
+  patients: {
+    name: "이름",
+    birth_date: "생년월일",
+    sex: "성별",
+    chart_no: "차트번호",
+    father_height_cm: "아버지 키 (cm)",
+    mother_height_cm: "어머니 키 (cm)",
+    gestational_age_days: "재태주수",
+    growth_reference: "성장 기준"
+  },
+  visits: {
+    created_at: "검사일",
+    height_cm: "키 (cm)",
+    weight_kg: "몸무게 (kg)",
+    head_circumference_cm: "머리둘레 (cm)",
+    bmi: "BMI",
+    age_months: "나이",
+    growth_injection: "성장주사",
+    suppression_injection: "억제주사",
+    treatment_id: "투여 요법",
+    tanner_breast_genital: "태너 단계 (유방/성기)",
+    tanner_pubic_hair: "태너 단계 (음모)",
+    testicular_volume_ml: "고환 용적 (mL)"
+  }
+};
+
+function formatAuditValue(field: string, value: unknown) {
+  if (value === null || value === undefined || value === "") {
+    return "—";
+  }
+  if (typeof value === "boolean") {
+    return value ? "예" : "아니오";
+  }
+  switch (field) {
+    case "sex":
+      return value === "1" ? "남" : "여";
+    case "birth_date":
+      return String(value).replace(/-/g, ".");
+    case "created_at":
+      return formatDate(String(value));
+    case "age_months":
+      return formatAge(Number(value));
+    case "gestational_age_days":
+      return formatGestationalAge(Number(value));
+    case "bmi":
+      return Number(value).toFixed(1);
+    case "growth_reference":
+      return isGrowthReference(value) ? growthReferenceLabels[value] : String(value);
+    case "treatment_id":
+      return `요법 ${String(value).slice(0, 8)}`;
+    default:
+      return String(value);
+  }
+}
+
+export function auditChanges(entry: AuditEntry): AuditChange[] {
+  return Object.entries(auditFieldLabels[entry.table]).flatMap(([field, label]) => {
+    const before = entry.before ? formatAuditValue(field, entry.before[field]) : "—";
+    const after = entry.after ? formatAuditValue(field, entry.after[field]) : "—";
+    switch (entry.action) {
+      case "update":
+        return before === after ? [] : [{ field, label, before, after }];
+      case "delete":
+      case "purge":
+        return [{ field, label, before, after: "—" }];
+      default:
+        return [{ field, label, before: "—", after }];
+    }
+  });
+}
+
+export function auditRecordLabel(entry: AuditEntry) {
+  if (entry.table === "patients") {
+    return auditTableLabels.patients;
+  }
+  const source = entry.after ?? entry.before;
+  const visitDate = source?.created_at;
+  return typeof visitDate === "string"
+    ? `${auditTableLabels.visits} (${formatDate(visitDate)})`
+    : auditTableLabels.visits;
+}
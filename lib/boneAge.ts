@@ -0,0 +1,117 @@
+export type BoneAgeMethod = "greulich-pyle" | "tw3" | "other";
+
+export type BoneAgeReading = {
+  id: string;
+  date: string;
+  boneAgeMonths: number;
+  method: BoneAgeMethod;
+};
+
+export type AdultHeightPrediction = {
+  predictedHeight: number;
+  percentOfAdultHeight: number;
+  boneAgeMonths: number;
+  advancementMonths: number;
+  outsideAverageTable: boolean;
+};
+
+// Bayley-Pinneau "average" table: percent of mature height attained by bone age (years).
+const bayleyPinneauAverage: Record<string, [number, number][]> = {
+  "1": [
+    [7, 69.5],
+    [8, 72.3],
+    [9, 75.2],
+    [10, 78.0],
+    [11, 80.4],
+    [12, 83.4],
+    [13, 87.6],
+    [14, 92.7],
+    [15, 96.2],
+    [16, 98.2],
+    [17, 99.3],
+    [18, 99.8],
+    [18.5, 100]
+  ],
+  "2": [
+    [6, 72.0],
+    [7, 75.7],
+    [8, 79.0],
+    [9, 82.7],
+    [10, 86.2],
+    [11, 90.6],
+    [12, 94.8],
+    [13, 97.4],
+    [14, 98.7],
+    [15, 99.4],
+    [16, 99.6],
+    [17, 99.9],
+    [18, 100]
+  ]
+};
+
+const MATCH_WINDOW_DAYS = 31;
+const DAY_MS = 1000 * 60 * 60 * 24;
+const DAYS_PER_MONTH = 30.4375;
+
+export const boneAgeMethodLabels: Record<BoneAgeMethod, string> = {
+  "greulich-pyle": "Greulich-Pyle",
+  tw3: "TW3",
+  other: "기타"
+};
+
+export function percentOfAdultHeight(sexKey: string | null, boneAgeMonths: number) {
+  const table = sexKey ? bayleyPinneauAverage[sexKey] : undefined;
+  if (!table) {
+    return null;
+  }
+  const years = boneAgeMonths / 12;
+  if (years < table[0][0] || years > table[table.length - 1][0]) {
+    return null;
+  }
+  const upper = table.findIndex(([age]) => age >= years);
+  if (table[upper][0] === years || upper === 0) {
+    return table[upper][1];
+  }
+  const [lowerAge, lowerPercent] = table[upper - 1];
+  const [upperAge, upperPercent] = table[upper];
+  return lowerPercent + ((upperPercent - lowerPercent) * (years - lowerAge)) / (upperAge - lowerAge);
+}
+
+export function findClosestByDate<T extends { date: string }>(items: T[], date: string) {
+  const target = new Date(date).getTime();
+  let best: T | null = null;
+  let bestDistance = Number.POSITIVE_INFINITY;
+  for (const item of items) {
+    const distance = Math.abs(new Date(item.date).getTime() - target) / DAY_MS;
+    if (distance <= MATCH_WINDOW_DAYS && distance < bestDistance) {
+      best = item;
+      bestDistance = distance;
+    }
+  }
+  return best;
+}
+
+export function boneAgeOnDate(reading: BoneAgeReading, date: string) {
+  const elapsedDays = (new Date(date).getTime() - new Date(reading.date).getTime()) / DAY_MS;
+  return reading.boneAgeMonths + elapsedDays / DAYS_PER_MONTH;
+}
+
+export function predictAdultHeight(
+  sexKey: string | null,
+  reading: BoneAgeReading,
+  height: number,
+  chronologicalAgeMonths: number
+): AdultHeightPrediction | null {
+  const percent = percentOfAdultHeight(sexKey, reading.boneAgeMonths);
+  if (percent === null || !Number.isFinite(height)) {
+    return null;
+  }
+  const advancementMonths = reading.boneAgeMonths - chronologicalAgeMonths;
+  return {
+    predictedHeight: (height / percent) * 100,
+    percentOfAdultHeight: percent,
+    boneAgeMonths: reading.boneAgeMonths,
+    advancementMonths,
+    outsideAverageTable: Math.abs(advancementMonths) > 12
+  };
+}
@@ -0,0 +1,96 @@
+import type {
+  ChartEvent,
+  ChartPubertyMark,
+  ChartTreatmentSpan,
+  ReferenceCurve
+} from "../components/MetricChart";
+import { parseDateInput } from "./format";
+import { correctAgeMonths, GrowthTable } from "./growth";
+import { formatTannerStage, hasPubertyStaging, isEarlyOnset, isPubertal } from "./puberty";
+import type { Visit } from "./records";
+import { getAgeInfo } from "./residentId";
+import { Treatment, treatmentDrugShortLabels } from "./treatment";
+
+export function buildReferenceCurves(
+  table: GrowthTable | null,
+  sexKey: string | null
+): ReferenceCurve[] {
+  if (!table || !sexKey) {
+    return [];
+  }
+  const curve = table.bySex[sexKey];
+  if (!curve) {
+    return [];
+  }
+  return table.percentiles.map((key) => ({
+    key,
+    points: curve.ages
+      .map((age, index) => ({
+        x: age,
+        y: curve.percentiles[key]?.[index]
+      }))
+      .filter((point) => Number.isFinite(point.y))
+  }));
+}
+
+export function buildInjectionEvents(visits: Visit[], gestationalAgeDays: number | null) {
+  // Visits tied to a treatment are shown by its span; arrows remain for older flag-only visits.
+  return visits.flatMap((visit) => {
+    if (visit.treatmentId) {
+      return [];
+    }
+    const x = correctAgeMonths(visit.ageMonths, gestationalAgeDays);
+    const events: ChartEvent[] = [];
+    if (visit.growthInjection) {
+      events.push({ x, label: "성장주사", type: "growth" });
+    }
+    if (visit.suppressionInjection) {
+      events.push({ x, label: "억제주사", type: "suppression" });
+    }
+    if (events.length === 2) {
+      events[0].offset = -8;
+      events[1].offset = 8;
+    }
+    return events;
+  });
+}
+
+export function buildTreatmentSpans(
+  treatments: Treatment[],
+  birthDate: string,
+  gestationalAgeDays: number | null,
+  today: string
+): ChartTreatmentSpan[] {
+  const ageAt = (date: string) => {
+    const parsed = parseDateInput(date);
+    const info = parsed ? getAgeInfo(birthDate, parsed) : null;
+    return info ? correctAgeMonths(info.ageMonths, gestationalAgeDays) : null;
+  };
+  return treatments.flatMap((treatment) => {
+    const start = ageAt(treatment.startedOn);
+    const end = ageAt(treatment.stoppedOn ?? today);
+    if (start === null || end === null || end < start) {
+      return [];
+    }
+    return [
+      {
+        start,
+        end,
+        label: `${treatmentDrugShortLabels[treatment.drug]} ${treatment.dose}${treatment.unit}`,
+        type: treatment.drug === "growth-hormone" ? ("growth" as const) : ("suppression" as const)
+      }
+    ];
+  });
+}
+
+export function buildPubertyMarks(
+  visits: Visit[],
+  sexKey: string | null,
+  gestationalAgeDays: number | null
+): ChartPubertyMark[] {
+  return visits.filter(hasPubertyStaging).map((visit) => ({
+    x: correctAgeMonths(visit.ageMonths, gestationalAgeDays),
+    label: formatTannerStage(visit, sexKey),
+    early: isPubertal(visit, sexKey) && isEarlyOnset(visit.ageMonths, sexKey)
+  }));
+}
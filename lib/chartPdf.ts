@@ -0,0 +1,162 @@
+import { isValidElement, ReactElement, ReactNode } from "react";
+import MetricChart, { MetricChartProps } from "../components/MetricChart";
+import { ChartStyle, chartStyle } from "./chartStyles";
+import { parseColor, PdfColor, PdfPage, PdfPoint, PdfShape } from "./pdf";
+
+type ChartBox = { x: number; y: number; width: number; height: number };
+
+type ElementProps = Record<string, unknown> & { children?: ReactNode; className?: string };
+
+type Transform = {
+  scale: number;
+  offsetX: number;
+  offsetY: number;
+  color: string;
+};
+
+function resolveColor(value: string | undefined, current: string): PdfColor | undefined {
+  if (!value) {
+    return undefined;
+  }
+  return parseColor(value === "currentColor" ? current : value);
+}
+
+function shapeFor(style: ChartStyle, transform: Transform): PdfShape {
+  const stroke = resolveColor(style.stroke, transform.color);
+  return {
+    fill: resolveColor(style.fill, transform.color),
+    stroke: stroke
+      ? {
+          color: stroke,
+          width: (style.strokeWidth ?? 1) * transform.scale,
+          dash: style.dash?.map((value) => value * transform.scale)
+        }
+      : undefined
+  };
+}
+
+function textContent(children: ReactNode): string {
+  if (children === null || children === undefined || typeof children === "boolean") {
+    return "";
+  }
+  if (Array.isArray(children)) {
+    return children.map(textContent).join("");
+  }
+  return typeof children === "string" || typeof children === "number" ? String(children) : "";
+}
+
+function parsePath(d: string) {
+  const tokens = d.trim().split(/[\s,]+/);
+  const points: PdfPoint[] = [];
+  for (let index = 0; index < tokens.length; index += 1) {
+    if (tokens[index] === "M" || tokens[index] === "L") {
+      points.push({ x: Number(tokens[index + 1]), y: Number(tokens[index + 2]) });
+      index += 2;
+    }
+  }
+  return points;
+}
+
+function parsePoints(value: string) {
+  return value
+    .trim()
+    .split(/\s+/)
+    .map((pair) => {
+      const [x, y] = pair.split(",").map(Number);
+      return { x, y };
+    });
+}
+
+function drawNode(page: PdfPage, node: ReactNode, transform: Transform) {
+  if (Array.isArray(node)) {
+    node.forEach((child) => drawNode(page, child, transform));
+    return;
+  }
+  if (!isValidElement(node)) {
+    return;
+  }
+  const props = node.props as ElementProps;
+  if (typeof node.type !== "string") {
+    drawNode(page, props.children, transform);
+    return;
+  }
+
+  const style = chartStyle(props.className);
+  const x = (value: unknown) => transform.offsetX + Number(value) * transform.scale;
+  const y = (value: unknown) => transform.offsetY + Number(value) * transform.scale;
+  const point = (value: PdfPoint) => ({ x: x(value.x), y: y(value.y) });
+
+  switch (node.type) {
+    case "svg":
+      drawNode(page, props.children, transform);
+      break;
+    case "g":
+      drawNode(page, props.children, { ...transform, color: style.color ?? transform.color });
+      break;
+    case "line": {
+      const { stroke } = shapeFor(style, transform);
+      if (stroke) {
+        page.line(x(props.x1), y(props.y1), x(props.x2), y(props.y2), stroke);
+      }
+      break;
+    }
+    case "path":
+      page.polyline(parsePath(String(props.d ?? "")).map(point), {
+        stroke: shapeFor(style, transform).stroke
+      });
+      break;
+    case "polygon":
+      page.polyline(
+        parsePoints(String(props.points ?? "")).map(point),
+        shapeFor(style, transform),
+        true
+      );
+      break;
+    case "rect":
+      page.rect(
+        x(props.x),
+        y(props.y),
+        Number(props.width) * transform.scale,
+        Number(props.height) * transform.scale,
+        shapeFor(style, transform)
+      );
+      break;
+    case "circle":
+      page.circle(
+        x(props.cx),
+        y(props.cy),
+        Number(props.r) * transform.scale,
+        shapeFor(style, transform)
+      );
+      break;
+    case "text": {
+      const anchor = props.textAnchor as "start" | "middle" | "end" | undefined;
+      page.text(x(props.x), y(props.y), textContent(props.children), {
+        size: (style.fontSize ?? 12) * transform.scale,
+        color: resolveColor(style.fill, transform.color),
+        align: anchor ?? "start"
+      });
+      break;
+    }
+  }
+}
+
+export function drawMetricChart(page: PdfPage, props: MetricChartProps, box: ChartBox) {
+  const svg = MetricChart(props) as ReactElement<ElementProps>;
+  const viewBox = String(svg.props.viewBox ?? "").split(" ").map(Number);
+  if (svg.type !== "svg" || viewBox.length !== 4) {
+    page.text(box.x + box.width / 2, box.y + box.height / 2, "기록이 없습니다.", {
+      size: 10,
+      color: parseColor("#5e6b72"),
+      align: "middle"
+    });
+    return;
+  }
+  const scale = Math.min(box.width / viewBox[2], box.height / viewBox[3]);
+  drawNode(page, svg.props.children, {
+    scale,
+    offsetX: box.x + (box.width - viewBox[2] * scale) / 2,
+    offsetY: box.y + (box.height - viewBox[3] * scale) / 2,
+    color: "#1f2a2e"
+  });
+}
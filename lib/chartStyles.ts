@@ -0,0 +1,69 @@
+import type { CSSProperties } from "react";
+
+export type ChartStyle = {
+  fill?: string;
+  stroke?: string;
+  strokeWidth?: number;
+  dash?: number[];
+  color?: string;
+  fontSize?: number;
+  fontWeight?: number;
+  opacity?: number;
+};
+
+// Single source for chart colors and strokes: MetricChart applies them as inline styles and the
+// PDF report draws with them. app/globals.css keeps only the layout and animation rules.
+const chartStyles: Record<string, ChartStyle> = {
+  "chart-grid": { stroke: "rgba(31, 42, 46, 0.12)", strokeWidth: 1 },
+  "chart-axis": { stroke: "rgba(31, 42, 46, 0.25)", strokeWidth: 1.5 },
+  "chart-percentile": { stroke: "rgba(31, 42, 46, 0.18)", strokeWidth: 1 },
+  "chart-percentile mid": { stroke: "rgba(31, 42, 46, 0.32)", strokeWidth: 1.4 },
+  "chart-percentile major": { stroke: "rgba(31, 138, 112, 0.6)", strokeWidth: 2 },
+  "chart-line": { stroke: "#1f8a70", strokeWidth: 3 },
+  "chart-line weight": { stroke: "#f36f5a", strokeWidth: 3 },
+  "chart-line bmi": { stroke: "#6d5ba8", strokeWidth: 3 },
+  "chart-line head": { stroke: "#3f7cac", strokeWidth: 3 },
+  "chart-line weight-for-length": { stroke: "#c0784a", strokeWidth: 3 },
+  "chart-line weight-for-height": { stroke: "#c0784a", strokeWidth: 3 },
+  "chart-line height-velocity": { stroke: "#1f8a70", strokeWidth: 2.4 },
+  "chart-dot": { fill: "#e0b562" },
+  "chart-current": { fill: "#e34b4b", stroke: "#ffffff", strokeWidth: 1.4 },
+  "chart-event": { fill: "currentColor" },
+  "chart-event-growth": { color: "#1f8a70" },
+  "chart-event-suppression": { color: "#f36f5a" },
+  "chart-treatment": { fill: "currentColor" },
+  "chart-treatment-growth": { color: "rgba(31, 138, 112, 0.1)" },
+  "chart-treatment-suppression": { color: "rgba(243, 111, 90, 0.1)" },
+  "chart-puberty": { color: "#6d5ba8" },
+  "chart-puberty early": { color: "#e34b4b" },
+  "chart-puberty-line": { stroke: "currentColor", strokeWidth: 1, dash: [2, 4], opacity: 0.6 },
+  "chart-puberty-label": { fill: "currentColor", fontSize: 10, fontWeight: 600 },
+  "chart-target-bar": { stroke: "#6d5ba8", strokeWidth: 2.2 },
+  "chart-target-point": { fill: "#6d5ba8", stroke: "#ffffff", strokeWidth: 1.2 },
+  "chart-bone-age-link": { stroke: "#3f7cac", strokeWidth: 1.4, dash: [3, 3] },
+  "chart-bone-age-dot": { fill: "#ffffff", stroke: "#3f7cac", strokeWidth: 2 },
+  "chart-label": { fill: "#5e6b72", fontSize: 12 },
+  "chart-event-label": { fill: "#5e6b72", fontSize: 10 }
+};
+
+export function chartStyle(className: string | undefined): ChartStyle {
+  return chartStyles[(className ?? "").trim().replace(/\s+/g, " ")] ?? {};
+}
+
+export function chartStyleProps(className: string, extra?: CSSProperties) {
+  const style = chartStyle(className);
+  return {
+    className,
+    style: {
+      fill: style.fill,
+      stroke: style.stroke,
+      strokeWidth: style.strokeWidth,
+      strokeDasharray: style.dash?.join(" "),
+      color: style.color,
+      fontSize: style.fontSize,
+      fontWeight: style.fontWeight,
+      opacity: style.opacity,
+      ...extra
+    }
+  };
+}
@@ -0,0 +1,120 @@
+import { getTodayInputValue, toDateInputValue } from "./format";
+import { correctAgeMonths, evaluateGrowth, GrowthEvaluation, GrowthTable } from "./growth";
+import { formatTannerStage } from "./puberty";
+import type { Patient, Visit } from "./records";
+import { buildXlsx, Sheet, SheetCell } from "./xlsx";
+
+export type ExportFormat = "csv" | "xlsx";
+
+type ExportTables = {
+  height: GrowthTable | null;
+  weight: GrowthTable | null;
+  bmi: GrowthTable | null;
+};
+
+const exportColumns: { header: string; decimals: number | null }[] = [
+  { header: "검사일", decimals: null },
+  { header: "나이(개월)", decimals: 2 },
+  { header: "키(cm)", decimals: 1 },
+  { header: "키 백분위", decimals: 1 },
+  { header: "키 Z점수", decimals: 2 },
+  { header: "몸무게(kg)", decimals: 1 },
+  { header: "몸무게 백분위", decimals: 1 },
+  { header: "몸무게 Z점수", decimals: 2 },
+  { header: "BMI", decimals: 1 },
+  { header: "BMI 백분위", decimals: 1 },
+  { header: "BMI Z점수", decimals: 2 },
+  { header: "태너 단계", decimals: null },
+  { header: "성장주사", decimals: null },
+  { header: "억제주사", decimals: null }
+];
+
+function round(value: number, decimals: number) {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+function evaluationCells(evaluation: GrowthEvaluation | null): SheetCell[] {
+  return evaluation ? [round(evaluation.percentile, 1), round(evaluation.zScore, 2)] : [null, null];
+}
+
+export function buildGrowthSheet(
+  visits: Visit[],
+  tables: ExportTables,
+  sexKey: string | null,
+  gestationalAgeDays: number | null
+): Sheet {
+  const rows = [...visits]
+    .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())
+    .map((visit): SheetCell[] => {
+      const age = correctAgeMonths(visit.ageMonths, gestationalAgeDays);
+      return [
+        toDateInputValue(visit.date),
+        round(visit.ageMonths, 2),
+        round(visit.height, 1),
+        ...evaluationCells(evaluateGrowth(tables.height, sexKey, age, visit.height)),
+        round(visit.weight, 1),
+        ...evaluationCells(evaluateGrowth(tables.weight, sexKey, age, visit.weight)),
+        round(visit.bmi, 1),
+        ...evaluationCells(evaluateGrowth(tables.bmi, sexKey, age, visit.bmi)),
+        formatTannerStage(visit, sexKey) || null,
+        visit.growthInjection ? "예" : "아니오",
+        visit.suppressionInjection ? "예" : "아니오"
+      ];
+    });
+
+  return {
+    name: "성장 기록",
+    headers: exportColumns.map((column) => column.header),
+    rows,
+    decimals: exportColumns.map((column) => column.decimals)
+  };
+}
+
+function csvValue(value: SheetCell, decimals: number | null) {
+  if (value === null) {
+    return "";
+  }
+  if (typeof value === "number") {
+    return decimals === null ? String(value) : value.toFixed(decimals);
+  }
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, "\"\"")}"` : value;
+}
+
+export function toCsv(sheet: Sheet) {
+  const lines = [
+    sheet.headers.map((header) => csvValue(header, null)).join(","),
+    ...sheet.rows.map((row) =>
+      row.map((value, index) => csvValue(value, sheet.decimals[index])).join(",")
+    )
+  ];
+  return `\uFEFF${lines.join("\r\n")}\r\n`;
+}
+
+export function exportFileName(patient: Patient, format: ExportFormat) {
+  return `성장기록_${patient.chartNo ?? patient.name}_${getTodayInputValue()}.${format}`;
+}
+
+export function reportFileName(patient: Patient) {
+  return `성장보고서_${patient.chartNo ?? patient.name}_${getTodayInputValue()}.pdf`;
+}
+
+export function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // Revoking synchronously can cancel the download before the browser starts it.
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+export function downloadGrowthExport(sheet: Sheet, fileName: string, format: ExportFormat) {
+  const blob =
+    format === "csv"
+      ? new Blob([toCsv(sheet)], { type: "text/csv;charset=utf-8" })
+      : new Blob([buildXlsx(sheet)], {
+          type: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+        });
+  downloadBlob(blob, fileName);
+}
@@ -0,0 +1,73 @@
+export function parseDateInput(value: string) {
+  if (!value) {
+    return null;
+  }
+  const [year, month, day] = value.split("-").map((part) => Number.parseInt(part, 10));
+  if (!year || !month || !day) {
+    return null;
+  }
+  return new Date(year, month - 1, day);
+}
+
+export function toVisitTimestamp(value: string) {
+  const parsed = parseDateInput(value);
+  if (!parsed) {
+    return null;
+  }
+  const localNoon = new Date(
+    parsed.getFullYear(),
+    parsed.getMonth(),
+    parsed.getDate(),
+    12,
+    0,
+    0,
+    0
+  );
+  return localNoon.toISOString();
+}
+
+export function getTodayInputValue() {
+  const now = new Date();
+  const offsetMs = now.getTimezoneOffset() * 60000;
+  return new Date(now.getTime() - offsetMs).toISOString().slice(0, 10);
+}
+
+export function toDateInputValue(value: string) {
+  const parsed = new Date(value);
+  if (Number.isNaN(parsed.getTime())) {
+    return "";
+  }
+  const offsetMs = parsed.getTimezoneOffset() * 60000;
+  return new Date(parsed.getTime() - offsetMs).toISOString().slice(0, 10);
+}
+
+export function formatAge(ageMonths: number) {
+  const completed = Math.floor(ageMonths);
+  if (completed < 24) {
+    return `${completed}개월`;
+  }
+  const years = Math.floor(completed / 12);
+  const months = completed % 12;
+  return months === 0 ? `${years}년` : `${years}년 ${months}개월`;
+}
+
+export function formatGestationalAge(days: number) {
+  const weeks = Math.floor(days / 7);
+  const rest = days % 7;
+  return rest ? `${weeks}주 ${rest}일` : `${weeks}주`;
+}
+
+export function formatDate(value: string) {
+  return new Date(value).toLocaleDateString("ko-KR", {
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit"
+  });
+}
+
+export function formatShortDate(value: string) {
+  return new Date(value).toLocaleDateString("ko-KR", {
+    month: "2-digit",
+    day: "2-digit"
+  });
+}
@@ -0,0 +1,359 @@
+export type GrowthMetric =
+  | "height"
+  | "weight"
+  | "bmi"
+  | "head"
+  | "weight-for-length"
+  | "weight-for-height"
+  | "height-velocity";
+
+export type GrowthAxis = "age" | "height";
+
+export type GrowthReference = "korea-2017" | "who-2006";
+
+export type BmiCategory = "underweight" | "normal" | "overweight" | "obese";
+
+export type LmsValues = {
+  L: number;
+  M: number;
+  S: number;
+};
+
+export type LmsSeries = {
+  L: number[];
+  M: number[];
+  S: number[];
+};
+
+export type GrowthCurve = {
+  ages: number[];
+  percentiles: Record<string, number[]>;
+  lms: LmsSeries;
+};
+
+export type GrowthTable = {
+  metric: GrowthMetric;
+  reference: GrowthReference;
+  axis: GrowthAxis;
+  percentiles: string[];
+  bySex: Record<string, GrowthCurve>;
+};
+
+export const DEFAULT_GROWTH_REFERENCE: GrowthReference = "korea-2017";
+
+export const growthReferenceLabels: Record<GrowthReference, string> = {
+  "korea-2017": "한국 2017",
+  "who-2006": "WHO 2006/2007"
+};
+
+export function isGrowthReference(value: unknown): value is GrowthReference {
+  return (
+    typeof value === "string" && Object.prototype.hasOwnProperty.call(growthReferenceLabels, value)
+  );
+}
+
+// Korean 2017 tables that are not bundled; these metrics fall back to the WHO tables so Korean
+// patients still get percentiles and curves.
+const koreaWhoFallbackMetrics: GrowthMetric[] = ["bmi", "head"];
+
+// Weight-for-length/height always uses the WHO tables, whatever reference the patient follows.
+export function tableReferenceFor(
+  metric: GrowthMetric,
+  reference: GrowthReference
+): GrowthReference {
+  if (
+    metric === "weight-for-length" ||
+    metric === "weight-for-height" ||
+    (reference === "korea-2017" && koreaWhoFallbackMetrics.includes(metric))
+  ) {
+    return "who-2006";
+  }
+  return reference;
+}
+
+// WHO publishes weight-for-length (recumbent) below 24 months and weight-for-height from 24 months.
+export function weightForStatureMetric(ageMonths: number) {
+  return ageMonths < 24 ? "weight-for-length" : "weight-for-height";
+}
+
+export type TableCoverage = "covered" | "unavailable" | "out-of-range";
+
+export const tableCoverageLabels: Record<Exclude<TableCoverage, "covered">, string> = {
+  unavailable: "기준표 없음",
+  "out-of-range": "기준 범위 밖"
+};
+
+// x is the age in months, or the height in cm for weight-for-length/height tables.
+export function tableCoverage(
+  table: GrowthTable | null,
+  sexKey: string | null,
+  x: number
+): TableCoverage {
+  const values = table && sexKey ? table.bySex[sexKey]?.ages : undefined;
+  if (!values?.length) {
+    return "unavailable";
+  }
+  return x < values[0] || x > values[values.length - 1] ? "out-of-range" : "covered";
+}
+
+export type GrowthEvaluation = {
+  zScore: number;
+  percentile: number;
+  lms: LmsValues;
+};
+
+function findBracket(values: number[], target: number) {
+  if (!values.length || target < values[0] || target > values[values.length - 1]) {
+    return null;
+  }
+  let upper = values.findIndex((value) => value >= target);
+  if (upper < 0) {
+    return null;
+  }
+  if (values[upper] === target || upper === 0) {
+    return { lower: upper, upper, ratio: 0 };
+  }
+  const lower = upper - 1;
+  return { lower, upper, ratio: (target - values[lower]) / (values[upper] - values[lower]) };
+}
+
+export function interpolateLms(curve: GrowthCurve, x: number): LmsValues | null {
+  const bracket = findBracket(curve.ages, x);
+  if (!bracket) {
+    return null;
+  }
+  const pick = (series: number[]) =>
+    series[bracket.lower] + (series[bracket.upper] - series[bracket.lower]) * bracket.ratio;
+  const lms = { L: pick(curve.lms.L), M: pick(curve.lms.M), S: pick(curve.lms.S) };
+  if (!Number.isFinite(lms.L) || !Number.isFinite(lms.M) || !Number.isFinite(lms.S)) {
+    return null;
+  }
+  return lms;
+}
+
+export function lmsZScore(value: number, { L, M, S }: LmsValues) {
+  if (M <= 0 || S <= 0 || (value <= 0 && L !== 1)) {
+    return Number.NaN;
+  }
+  if (Math.abs(L) < 1e-6) {
+    return Math.log(value / M) / S;
+  }
+  return (Math.pow(value / M, L) - 1) / (L * S);
+}
+
+export function normalCdf(z: number) {
+  const t = 1 / (1 + 0.3275911 * (Math.abs(z) / Math.SQRT2));
+  const poly =
+    t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+  const erf = 1 - poly * Math.exp(-(z * z) / 2);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+export function evaluateGrowth(
+  table: GrowthTable | null,
+  sexKey: string | null,
+  x: number,
+  value: number
+): GrowthEvaluation | null {
+  if (!table || !sexKey || !Number.isFinite(x) || !Number.isFinite(value)) {
+    return null;
+  }
+  const curve = table.bySex[sexKey];
+  if (!curve) {
+    return null;
+  }
+  const lms = interpolateLms(curve, x);
+  if (!lms) {
+    return null;
+  }
+  const zScore = lmsZScore(value, lms);
+  if (!Number.isFinite(zScore)) {
+    return null;
+  }
+  return { zScore, percentile: normalCdf(zScore) * 100, lms };
+}
+
+export type PercentileBand = {
+  lower: string | null;
+  upper: string | null;
+  nearest: string;
+};
+
+export function interpolatePercentiles(curve: GrowthCurve, x: number) {
+  const bracket = findBracket(curve.ages, x);
+  if (!bracket) {
+    return null;
+  }
+  return Object.fromEntries(
+    Object.entries(curve.percentiles).map(([key, series]) => [
+      key,
+      series[bracket.lower] + (series[bracket.upper] - series[bracket.lower]) * bracket.ratio
+    ])
+  );
+}
+
+// The published percentile lines bracketing the value, and the line it sits closest to.
+export function findPercentileBand(
+  table: GrowthTable | null,
+  sexKey: string | null,
+  x: number,
+  value: number
+): PercentileBand | null {
+  const curve = table && sexKey ? table.bySex[sexKey] : undefined;
+  const values = curve ? interpolatePercentiles(curve, x) : null;
+  if (!table || !values) {
+    return null;
+  }
+  const lines = table.percentiles
+    .map((key) => ({ key, value: values[key] }))
+    .filter((line) => Number.isFinite(line.value))
+    .sort((a, b) => a.value - b.value);
+  if (!lines.length) {
+    return null;
+  }
+  const lower = [...lines].reverse().find((line) => line.value <= value) ?? null;
+  const upper = lines.find((line) => line.value > value) ?? null;
+  const nearest = lines.reduce((best, line) =>
+    Math.abs(line.value - value) < Math.abs(best.value - value) ? line : best
+  );
+  return { lower: lower?.key ?? null, upper: upper?.key ?? null, nearest: nearest.key };
+}
+
+export type TargetHeight = {
+  target: number;
+  min: number;
+  max: number;
+};
+
+export const MID_PARENTAL_RANGE_CM = 8.5;
+
+export function computeMidParentalHeight(
+  sexKey: string | null,
+  fatherHeight: number | null,
+  motherHeight: number | null
+): TargetHeight | null {
+  if (!sexKey || fatherHeight === null || motherHeight === null) {
+    return null;
+  }
+  if (!Number.isFinite(fatherHeight) || !Number.isFinite(motherHeight)) {
+    return null;
+  }
+  const adjustment = sexKey === "1" ? 13 : -13;
+  const target = (fatherHeight + motherHeight + adjustment) / 2;
+  return { target, min: target - MID_PARENTAL_RANGE_CM, max: target + MID_PARENTAL_RANGE_CM };
+}
+
+export const TERM_GESTATION_DAYS = 280;
+export const PRETERM_GESTATION_DAYS = 259;
+export const CORRECTED_AGE_LIMIT_MONTHS = 24;
+
+const DAYS_PER_MONTH = 365.25 / 12;
+
+export function correctAgeMonths(ageMonths: number, gestationalAgeDays: number | null) {
+  if (
+    gestationalAgeDays === null ||
+    gestationalAgeDays >= PRETERM_GESTATION_DAYS ||
+    ageMonths >= CORRECTED_AGE_LIMIT_MONTHS
+  ) {
+    return ageMonths;
+  }
+  return Math.max(0, ageMonths - (TERM_GESTATION_DAYS - gestationalAgeDays) / DAYS_PER_MONTH);
+}
+
+export type HeightSample = {
+  id: string;
+  date: string;
+  height: number;
+  ageMonths: number;
+};
+
+export type HeightVelocity = {
+  fromId: string;
+  toId: string;
+  intervalDays: number;
+  ageMonths: number;
+  velocity: number;
+};
+
+export const MIN_VELOCITY_INTERVAL_DAYS = 120;
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+const DAYS_PER_YEAR = 365.25;
+
+export function computeHeightVelocity(from: HeightSample, to: HeightSample): HeightVelocity | null {
+  const intervalDays = (new Date(to.date).getTime() - new Date(from.date).getTime()) / DAY_MS;
+  if (!Number.isFinite(intervalDays) || intervalDays < MIN_VELOCITY_INTERVAL_DAYS) {
+    return null;
+  }
+  return {
+    fromId: from.id,
+    toId: to.id,
+    intervalDays: Math.round(intervalDays),
+    ageMonths: (from.ageMonths + to.ageMonths) / 2,
+    velocity: ((to.height - from.height) / intervalDays) * DAYS_PER_YEAR
+  };
+}
+
+export function findVelocityBaseline<T extends HeightSample>(samples: T[], target: T) {
+  const targetTime = new Date(target.date).getTime();
+  return [...samples]
+    .filter(
+      (sample) => (targetTime - new Date(sample.date).getTime()) / DAY_MS >= MIN_VELOCITY_INTERVAL_DAYS
+    )
+    .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime())[0] ?? null;
+}
+
+export function computeVelocitySeries(samples: HeightSample[]) {
+  return samples
+    .map((sample) => {
+      const baseline = findVelocityBaseline(samples, sample);
+      return baseline ? computeHeightVelocity(baseline, sample) : null;
+    })
+    .filter((velocity): velocity is HeightVelocity => Boolean(velocity));
+}
+
+export function computeBmi(weight: number, height: number) {
+  return weight / Math.pow(height / 100, 2);
+}
+
+export function classifyBmi(percentile: number): BmiCategory {
+  if (percentile < 5) {
+    return "underweight";
+  }
+  if (percentile < 85) {
+    return "normal";
+  }
+  if (percentile < 95) {
+    return "overweight";
+  }
+  return "obese";
+}
+
+export const bmiCategoryLabels: Record<BmiCategory, string> = {
+  underweight: "저체중",
+  normal: "정상",
+  overweight: "과체중",
+  obese: "비만"
+};
+
+export function bmiStatus(evaluation: GrowthEvaluation | null) {
+  if (!evaluation) {
+    return "기준 없음";
+  }
+  return bmiCategoryLabels[classifyBmi(evaluation.percentile)];
+}
+
+export function formatZScore(zScore: number) {
+  const rounded = Math.round(zScore * 100) / 100;
+  if (rounded === 0) {
+    return "0.00";
+  }
+  return `${rounded < 0 ? "−" : "+"}${Math.abs(rounded).toFixed(2)}`;
+}
+
+export function formatEvaluation(evaluation: GrowthEvaluation | null) {
+  if (!evaluation) {
+    return "—";
+  }
+  return `${evaluation.percentile.toFixed(1)} 백분위 (z ${formatZScore(evaluation.zScore)})`;
+}
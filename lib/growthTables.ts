@@ -0,0 +1,277 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { parseCsvLine } from "./csv";
+import {
+  DEFAULT_GROWTH_REFERENCE,
+  GrowthAxis,
+  GrowthCurve,
+  GrowthMetric,
+  GrowthReference,
+  growthReferenceLabels,
+  GrowthTable,
+  LmsValues
+} from "./growth";
+
+// korea: the KDCA download with two header rows and both sexes in one file.
+// who: WHO percentile tables saved as CSV, one file per sex (Month, L, M, S, P01 ... P999);
+//   weight-for-length/height tables have a Length or Height column instead of Month.
+type CsvLayout = "korea" | "who";
+
+type TableSource = {
+  file: string;
+  layout: CsvLayout;
+  sex?: string;
+  minX?: number;
+  maxX?: number;
+};
+
+type GrowthRow = {
+  sex: string;
+  x: number;
+  percentiles: Record<string, number>;
+  lms: LmsValues;
+};
+
+type ParsedCsv = {
+  axis: GrowthAxis;
+  percentiles: string[];
+  rows: GrowthRow[];
+};
+
+type SourceRange = Pick<TableSource, "minX" | "maxX">;
+
+const whoSources = (code: string, range: SourceRange = {}): TableSource[] => [
+  { file: `growth-references/who/${code}_boys.csv`, layout: "who", sex: "1", ...range },
+  { file: `growth-references/who/${code}_girls.csv`, layout: "who", sex: "2", ...range }
+];
+
+const SOURCES: Record<GrowthReference, Partial<Record<GrowthMetric, TableSource[]>>> = {
+  "korea-2017": {
+    height: [{ file: "korea-growth-table_height.csv", layout: "korea" }],
+    weight: [{ file: "korea-growth-table_weight.csv", layout: "korea" }]
+  },
+  // WHO 2006 standards to 60 months (length below 24 months), WHO 2007 references from 61 months.
+  "who-2006": {
+    height: [
+      ...whoSources("lhfa_0_2", { maxX: 24 }),
+      ...whoSources("lhfa_2_5"),
+      ...whoSources("hfa_5_19")
+    ],
+    weight: whoSources("wfa_0_5"),
+    bmi: [
+      ...whoSources("bmi_0_2", { maxX: 24 }),
+      ...whoSources("bmi_2_5"),
+      ...whoSources("bmi_5_19")
+    ],
+    head: whoSources("hcfa"),
+    "weight-for-length": whoSources("wfl"),
+    "weight-for-height": whoSources("wfh")
+  }
+};
+
+// A reference can be selected for a patient only when its height and weight tables are installed.
+const requiredMetrics: GrowthMetric[] = ["height", "weight"];
+const growthMetrics: GrowthMetric[] = [
+  "height",
+  "weight",
+  "bmi",
+  "head",
+  "weight-for-length",
+  "weight-for-height"
+];
+const koreaPercentilePattern = /^\d+(st|nd|rd|th)$/i;
+const lmsKeys = ["L", "M", "S"] as const;
+const cache = new Map<string, GrowthTable>();
+
+export function isGrowthMetric(value: string | null): value is GrowthMetric {
+  return growthMetrics.includes(value as GrowthMetric);
+}
+
+function ordinal(value: number) {
+  const suffix =
+    value % 100 >= 11 && value % 100 <= 13
+      ? "th"
+      : value % 10 === 1
+      ? "st"
+      : value % 10 === 2
+      ? "nd"
+      : value % 10 === 3
+      ? "rd"
+      : "th";
+  return `${value}${suffix}`;
+}
+
+function readRow(
+  cells: string[],
+  percentileColumns: { name: string; index: number }[],
+  lmsIndexes: number[]
+) {
+  const number = (index: number) => (index >= 0 ? Number.parseFloat(cells[index]) : Number.NaN);
+  return {
+    percentiles: Object.fromEntries(
+      percentileColumns.map((column) => [column.name, number(column.index)])
+    ),
+    lms: { L: number(lmsIndexes[0]), M: number(lmsIndexes[1]), S: number(lmsIndexes[2]) }
+  };
+}
+
+function parseKoreaCsv(lines: string[]): ParsedCsv {
+  const headerTop = parseCsvLine(lines[0]);
+  const headerBottom = parseCsvLine(lines[1] ?? "");
+  const columns = headerTop.map((value, index) => {
+    const bottom = headerBottom[index]?.trim();
+    return bottom || value.trim();
+  });
+
+  const sexIndex = columns.findIndex((name) => name === "성별");
+  const monthIndex = columns.findIndex((name) => name.includes("만나이(개월"));
+  const heightIndex = columns.findIndex((name) => name === "신장(cm)");
+  const axis: GrowthAxis = monthIndex < 0 && heightIndex >= 0 ? "height" : "age";
+  const xIndex = axis === "height" ? heightIndex : monthIndex;
+  if (sexIndex < 0 || xIndex < 0) {
+    return { axis, percentiles: [], rows: [] };
+  }
+
+  const lmsIndexes = lmsKeys.map((key) => columns.findIndex((name) => name === key));
+  const percentileColumns = columns
+    .map((name, index) => ({ name: name.trim(), index }))
+    .filter((column) => koreaPercentilePattern.test(column.name));
+
+  const rows = lines.slice(2).flatMap((line) => {
+    const cells = parseCsvLine(line);
+    const sex = Number.parseInt(cells[sexIndex], 10);
+    const x = Number.parseFloat(cells[xIndex]);
+    if (!Number.isFinite(sex) || !Number.isFinite(x)) {
+      return [];
+    }
+    return [{ sex: String(sex), x, ...readRow(cells, percentileColumns, lmsIndexes) }];
+  });
+
+  return { axis, percentiles: percentileColumns.map((column) => column.name), rows };
+}
+
+function parseWhoCsv(lines: string[], source: TableSource): ParsedCsv {
+  const columns = parseCsvLine(lines[0]).map((name) => name.trim());
+  const lower = columns.map((name) => name.toLowerCase());
+  const heightIndex = lower.findIndex((name) => name === "length" || name === "height");
+  const axis: GrowthAxis = heightIndex >= 0 ? "height" : "age";
+  const xIndex =
+    axis === "height"
+      ? heightIndex
+      : lower.indexOf("month");
+  if (xIndex < 0 || !source.sex) {
+    return { axis, percentiles: [], rows: [] };
+  }
+
+  const lmsIndexes = lmsKeys.map((key) => columns.indexOf(key));
+  // P01 and P999 (0.1st/99.9th) have no counterpart in the other references.
+  const percentileColumns = columns
+    .map((name, index) => ({ match: name.match(/^P([1-9]\d?)$/), index }))
+    .filter((column) => column.match)
+    .map((column) => ({ name: ordinal(Number(column.match?.[1])), index: column.index }));
+
+  const sex = source.sex;
+  const rows = lines.slice(1).flatMap((line) => {
+    const cells = parseCsvLine(line);
+    const x = Number.parseFloat(cells[xIndex]);
+    if (!Number.isFinite(x)) {
+      return [];
+    }
+    return [{ sex, x, ...readRow(cells, percentileColumns, lmsIndexes) }];
+  });
+
+  return { axis, percentiles: percentileColumns.map((column) => column.name), rows };
+}
+
+function parseGrowthCsv(content: string, source: TableSource): ParsedCsv {
+  const lines = content
+    .replace(/^\uFEFF/, "")
+    .split(/\r?\n/)
+    .filter((line) => line.trim().length > 0);
+  if (lines.length < 2) {
+    return { axis: "age", percentiles: [], rows: [] };
+  }
+  const parsed = source.layout === "korea" ? parseKoreaCsv(lines) : parseWhoCsv(lines, source);
+  return {
+    ...parsed,
+    rows: parsed.rows.filter(
+      (row) =>
+        (source.minX === undefined || row.x >= source.minX) &&
+        (source.maxX === undefined || row.x < source.maxX)
+    )
+  };
+}
+
+function buildCurves(percentiles: string[], rows: GrowthRow[]) {
+  const bySex: Record<string, GrowthCurve> = {};
+  [...rows]
+    .sort((a, b) => a.x - b.x)
+    .forEach((row) => {
+      const curve = (bySex[row.sex] ??= {
+        ages: [],
+        percentiles: Object.fromEntries(percentiles.map((key) => [key, [] as number[]])),
+        lms: { L: [], M: [], S: [] }
+      });
+      curve.ages.push(row.x);
+      percentiles.forEach((key) =>
+        curve.percentiles[key].push(row.percentiles[key] ?? Number.NaN)
+      );
+      lmsKeys.forEach((key) => curve.lms[key].push(row.lms[key]));
+    });
+  return bySex;
+}
+
+async function readSource(source: TableSource) {
+  try {
+    return await fs.readFile(path.join(process.cwd(), source.file), "utf8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return null;
+    }
+    throw error;
+  }
+}
+
+// Returns null when the reference has no table for the metric or its files are not installed.
+export async function loadGrowthTable(
+  metric: GrowthMetric,
+  reference: GrowthReference = DEFAULT_GROWTH_REFERENCE
+): Promise<GrowthTable | null> {
+  const key = `${reference}:${metric}`;
+  const cached = cache.get(key);
+  if (cached) {
+    return cached;
+  }
+
+  const sources = SOURCES[reference][metric] ?? [];
+  const contents = await Promise.all(sources.map(readSource));
+  if (!sources.length || contents.some((content) => content === null)) {
+    return null;
+  }
+
+  const parsed = sources.map((source, index) => parseGrowthCsv(contents[index] ?? "", source));
+  const percentiles = parsed[0].percentiles;
+  const table: GrowthTable = {
+    metric,
+    reference,
+    axis: parsed[0].axis,
+    percentiles,
+    bySex: buildCurves(percentiles, parsed.flatMap((result) => result.rows))
+  };
+
+  cache.set(key, table);
+  return table;
+}
+
+export async function isGrowthReferenceAvailable(reference: GrowthReference) {
+  const tables = await Promise.all(
+    requiredMetrics.map((metric) => loadGrowthTable(metric, reference))
+  );
+  return tables.every((table) => table !== null);
+}
+
+export async function listAvailableGrowthReferences() {
+  const references = Object.keys(growthReferenceLabels) as GrowthReference[];
+  const available = await Promise.all(references.map(isGrowthReferenceAvailable));
+  return references.filter((_, index) => available[index]);
+}
@@ -0,0 +1,229 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { refreshVisitAlerts } from "./alertStore";
+import { toDateInputValue } from "./format";
+import { ImportPreviewRow, PatientRow, patientSelectFields } from "./records";
+import { hashResidentId } from "./residentHash";
+import { ImportRow, validateImportRow } from "./validation";
+
+type ImportPatientRow = {
+  id: string;
+  name: string;
+  resident_hash: string;
+  chart_no: string | null;
+  deleted_at: string | null;
+};
+
+type ImportAnalysis = {
+  rows: ImportPreviewRow[];
+  accepted: ImportRow[];
+};
+
+const IN_CHUNK_SIZE = 100;
+
+function readText(value: unknown) {
+  return typeof value === "string" ? value.trim() : "";
+}
+
+function readMeasurement(value: unknown) {
+  const parsed = typeof value === "number" ? value : Number.parseFloat(readText(value));
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+async function selectIn<T>(
+  supabase: SupabaseClient,
+  table: string,
+  fields: string,
+  column: string,
+  values: string[],
+  activeOnly = false
+) {
+  const rows: T[] = [];
+  for (let start = 0; start < values.length; start += IN_CHUNK_SIZE) {
+    let request = supabase
+      .from(table)
+      .select(fields)
+      .in(column, values.slice(start, start + IN_CHUNK_SIZE));
+    if (activeOnly) {
+      request = request.is("deleted_at", null);
+    }
+    const { data, error } = await request;
+    if (error) {
+      throw error;
+    }
+    rows.push(...((data ?? []) as T[]));
+  }
+  return rows;
+}
+
+export async function analyzeImport(
+  supabase: SupabaseClient,
+  input: unknown[]
+): Promise<ImportAnalysis> {
+  const parsed = input.map((raw, index) => {
+    const source = raw && typeof raw === "object" ? (raw as Record<string, unknown>) : {};
+    const result = validateImportRow(raw);
+    return {
+      source,
+      result,
+      line: result.value?.line || index + 2,
+      hash: result.value ? hashResidentId(result.value.resident.digits) : null
+    };
+  });
+
+  const hashes = [...new Set(parsed.flatMap((item) => (item.hash ? [item.hash] : [])))];
+  const chartNos = [
+    ...new Set(
+      parsed.flatMap((item) => {
+        const chartNo = item.result.value?.patient.chartNo;
+        return chartNo ? [chartNo] : [];
+      })
+    )
+  ];
+  const patientFields = "id, name, resident_hash, chart_no, deleted_at";
+  const hashMatches = await selectIn<ImportPatientRow>(
+    supabase,
+    "patients",
+    patientFields,
+    "resident_hash",
+    hashes
+  );
+  const chartMatches = await selectIn<ImportPatientRow>(
+    supabase,
+    "patients",
+    patientFields,
+    "chart_no",
+    chartNos
+  );
+  const byHash = new Map(hashMatches.map((row) => [row.resident_hash, row]));
+  const byChart = new Map(chartMatches.map((row) => [row.chart_no, row]));
+
+  const existingIds = [...byHash.values()].map((row) => row.id);
+  const visitKeys = new Set(
+    (
+      await selectIn<{ patient_id: string; created_at: string }>(
+        supabase,
+        "visits",
+        "patient_id, created_at",
+        "patient_id",
+        existingIds,
+        true
+      )
+    ).map((row) => `${row.patient_id}|${toDateInputValue(row.created_at)}`)
+  );
+
+  const fileKeys = new Set<string>();
+  const fileCharts = new Map<string, string>();
+  const rows: ImportPreviewRow[] = [];
+  const accepted: ImportRow[] = [];
+
+  parsed.forEach(({ source, result, line, hash }) => {
+    const preview: ImportPreviewRow = {
+      line,
+      name: readText(source.name),
+      visitDate: readText(source.visitDate),
+      height: readMeasurement(source.height),
+      weight: readMeasurement(source.weight),
+      status: "error",
+      newPatient: false,
+      message: null
+    };
+    rows.push(preview);
+
+    if (result.error !== undefined || !hash) {
+      preview.message = result.error ?? null;
+      return;
+    }
+
+    const row = result.value;
+    const existing = byHash.get(hash) ?? null;
+    const chartOwner = row.patient.chartNo ? byChart.get(row.patient.chartNo) : undefined;
+    const fileChartOwner = row.patient.chartNo ? fileCharts.get(row.patient.chartNo) : undefined;
+    if (existing?.deleted_at) {
+      preview.message = "휴지통에 있는 환자입니다.";
+      return;
+    }
+    if (
+      (chartOwner && chartOwner.resident_hash !== hash) ||
+      (fileChartOwner && fileChartOwner !== hash)
+    ) {
+      preview.message = "차트번호가 다른 환자에게 등록되어 있습니다.";
+      return;
+    }
+    if (row.patient.chartNo) {
+      fileCharts.set(row.patient.chartNo, hash);
+    }
+
+    const visitDate = toDateInputValue(row.record.visitTimestamp);
+    const fileKey = `${hash}|${visitDate}`;
+    preview.newPatient = !existing;
+    if (existing && visitKeys.has(`${existing.id}|${visitDate}`)) {
+      preview.status = "duplicate";
+      preview.message = "같은 날짜의 방문 기록이 이미 있습니다.";
+      return;
+    }
+    if (fileKeys.has(fileKey)) {
+      preview.status = "duplicate";
+      preview.message = "파일 안에 같은 환자·날짜 행이 있습니다.";
+      return;
+    }
+
+    fileKeys.add(fileKey);
+    preview.status = "new";
+    if (existing && existing.name !== row.patient.name) {
+      preview.message = `기존 환자 ${existing.name}에게 추가됩니다.`;
+    }
+    accepted.push(row);
+  });
+
+  return { rows, accepted };
+}
+
+export async function commitImport(supabase: SupabaseClient, rows: ImportRow[]) {
+  const patients = new Map<string, Record<string, unknown> & { visits: Record<string, unknown>[] }>();
+  rows.forEach((row) => {
+    const hash = hashResidentId(row.resident.digits);
+    let entry = patients.get(hash);
+    if (!entry) {
+      entry = {
+        resident_hash: hash,
+        name: row.patient.name,
+        birth_date: row.resident.birthDate,
+        sex: row.resident.sex,
+        chart_no: row.patient.chartNo,
+        visits: []
+      };
+      patients.set(hash, entry);
+    }
+    entry.visits.push({
+      height_cm: row.record.height,
+      weight_kg: row.record.weight,
+      head_circumference_cm: row.record.headCircumference,
+      bmi: row.record.bmi,
+      age_months: row.record.ageMonths,
+      created_at: row.record.visitTimestamp
+    });
+  });
+
+  const { data, error } = await supabase.rpc("import_visits", { payload: [...patients.values()] });
+  if (error) {
+    throw error;
+  }
+
+  // The import function stores visits without alerts; evaluate each patient's visits from the
+  // earliest imported one, which also refreshes existing visits dated after it.
+  const imported = await selectIn<PatientRow & { resident_hash: string }>(
+    supabase,
+    "patients",
+    `${patientSelectFields}, resident_hash`,
+    "resident_hash",
+    [...patients.keys()],
+    true
+  );
+  for (const row of imported) {
+    const dates = (patients.get(row.resident_hash)?.visits ?? []).map(
+      (visit) => visit.created_at as string
+    );
+    await refreshVisitAlerts(supabase, row, dates.sort()[0]);
+  }
+  return { patients: patients.size, visits: Number(data) };
+}
@@ -0,0 +1,535 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { GrowthAlert } from "./alerts";
+import { toDateInputValue } from "./format";
+import { DEFAULT_GROWTH_REFERENCE, GrowthReference } from "./growth";
+import {
+  AuditRow,
+  auditSelectFields,
+  BoneAgeRow,
+  boneAgeSelectFields,
+  mapAuditRows,
+  mapBoneAgeRows,
+  mapPatientRow,
+  mapTreatmentRows,
+  mapVisitRows,
+  PatientMatch,
+  PatientRow,
+  PatientSummary,
+  patientSelectFields,
+  toOptionalNumber,
+  TreatmentRow,
+  treatmentSelectFields,
+  VisitRow,
+  visitSelectFields
+} from "./records";
+import { hashResidentId } from "./residentHash";
+import { isTreatmentActive, treatmentInjectionFlags } from "./treatment";
+import type {
+  BoneAgeInput,
+  PatientChanges,
+  PatientInput,
+  ResidentIdentity,
+  TreatmentInput,
+  ValidationResult,
+  VisitRecord
+} from "./validation";
+
+type PatientUpdates = {
+  name?: string;
+  birth_date?: string;
+  sex?: string;
+  resident_hash?: string;
+  chart_no?: string | null;
+  father_height_cm?: number | null;
+  mother_height_cm?: number | null;
+  gestational_age_days?: number | null;
+  growth_reference?: GrowthReference;
+};
+
+type MatchRow = PatientRow & { deleted_at: string | null };
+
+type UpsertResult = {
+  matchType: PatientMatch;
+  created: boolean;
+  trashed: boolean;
+} & (
+  | { row: PatientRow; referenceDenied: false }
+  | { row: MatchRow | null; referenceDenied: true }
+);
+
+const SEARCH_LIMIT = 50;
+
+const matchSelectFields = `${patientSelectFields}, deleted_at`;
+
+function toVisitColumns(record: VisitRecord, alerts: GrowthAlert[]) {
+  return {
+    height_cm: record.height,
+    weight_kg: record.weight,
+    head_circumference_cm: record.headCircumference,
+    bmi: record.bmi,
+    age_months: record.ageMonths,
+    growth_injection: record.growthInjection,
+    suppression_injection: record.suppressionInjection,
+    treatment_id: record.treatmentId,
+    tanner_breast_genital: record.tannerBreastGenital,
+    tanner_pubic_hair: record.tannerPubicHair,
+    testicular_volume_ml: record.testicularVolume,
+    alerts,
+    created_at: record.visitTimestamp
+  };
+}
+
+function toTreatmentColumns(input: TreatmentInput) {
+  return {
+    drug: input.drug,
+    dose: input.dose,
+    dose_unit: input.unit,
+    frequency: input.frequency,
+    started_on: input.startedOn,
+    stopped_on: input.stoppedOn,
+    lot_number: input.lotNumber
+  };
+}
+
+async function applyPatientUpdates(
+  supabase: SupabaseClient,
+  row: PatientRow,
+  updates: PatientUpdates
+): Promise<PatientRow> {
+  if (!Object.keys(updates).length) {
+    return row;
+  }
+  const { data, error } = await supabase
+    .from("patients")
+    .update(updates)
+    .eq("id", row.id)
+    .select(patientSelectFields)
+    .single();
+  if (error || !data) {
+    throw error;
+  }
+  return data;
+}
+
+export async function getPatientRow(supabase: SupabaseClient, patientId: string) {
+  const { data, error } = await supabase
+    .from("patients")
+    .select(patientSelectFields)
+    .eq("id", patientId)
+    .is("deleted_at", null)
+    .maybeSingle();
+  if (error) {
+    throw error;
+  }
+  return data as PatientRow | null;
+}
+
+export async function upsertPatient(
+  supabase: SupabaseClient,
+  input: PatientInput,
+  resident: ResidentIdentity,
+  canSetGrowthReference: boolean
+): Promise<UpsertResult> {
+  const residentHash = hashResidentId(resident.digits);
+  const { data: residentMatch, error: residentError } = await supabase
+    .from("patients")
+    .select(matchSelectFields)
+    .eq("resident_hash", residentHash)
+    .maybeSingle();
+  if (residentError) {
+    throw residentError;
+  }
+
+  let row: MatchRow | null = residentMatch;
+  let matchType: PatientMatch = residentMatch ? "resident" : null;
+
+  if (!row && input.chartNo) {
+    const { data: chartMatch, error: chartError } = await supabase
+      .from("patients")
+      .select(matchSelectFields)
+      .eq("chart_no", input.chartNo)
+      .maybeSingle();
+    if (chartError) {
+      throw chartError;
+    }
+    if (chartMatch) {
+      row = chartMatch;
+      matchType = "chart";
+    }
+  }
+
+  const referenceChanged =
+    input.growthReference !== null &&
+    input.growthReference !== (row?.growth_reference ?? DEFAULT_GROWTH_REFERENCE);
+  if (referenceChanged && !canSetGrowthReference) {
+    return { row, matchType, created: false, trashed: false, referenceDenied: true };
+  }
+
+  if (!row) {
+    const { data: createdPatient, error: insertError } = await supabase
+      .from("patients")
+      .insert({
+        name: input.name,
+        birth_date: resident.birthDate,
+        sex: resident.sex,
+        resident_hash: residentHash,
+        chart_no: input.chartNo,
+        father_height_cm: input.fatherHeight,
+        mother_height_cm: input.motherHeight,
+        gestational_age_days: input.gestationalAgeDays,
+        growth_reference: input.growthReference ?? DEFAULT_GROWTH_REFERENCE
+      })
+      .select(patientSelectFields)
+      .single();
+    if (insertError || !createdPatient) {
+      throw insertError;
+    }
+    return {
+      row: createdPatient as PatientRow,
+      matchType,
+      created: true,
+      trashed: false,
+      referenceDenied: false
+    };
+  }
+  if (row.deleted_at) {
+    return { row, matchType, created: false, trashed: true, referenceDenied: false };
+  }
+
+  const updates: PatientUpdates = {};
+  if (row.name !== input.name) {
+    updates.name = input.name;
+  }
+  if (input.chartNo && row.chart_no !== input.chartNo) {
+    updates.chart_no = input.chartNo;
+  }
+  if (input.fatherHeight !== null && toOptionalNumber(row.father_height_cm) !== input.fatherHeight) {
+    updates.father_height_cm = input.fatherHeight;
+  }
+  if (input.motherHeight !== null && toOptionalNumber(row.mother_height_cm) !== input.motherHeight) {
+    updates.mother_height_cm = input.motherHeight;
+  }
+  if (input.gestationalAgeDays !== null && row.gestational_age_days !== input.gestationalAgeDays) {
+    updates.gestational_age_days = input.gestationalAgeDays;
+  }
+  if (input.growthReference && row.growth_reference !== input.growthReference) {
+    updates.growth_reference = input.growthReference;
+  }
+
+  return {
+    row: await applyPatientUpdates(supabase, row, updates),
+    matchType,
+    created: false,
+    trashed: false,
+    referenceDenied: false
+  };
+}
+
+export async function updatePatient(
+  supabase: SupabaseClient,
+  row: PatientRow,
+  changes: PatientChanges
+) {
+  const updates: PatientUpdates = {};
+  if (changes.name !== undefined && row.name !== changes.name) {
+    updates.name = changes.name;
+  }
+  if (changes.resident) {
+    updates.birth_date = changes.resident.birthDate;
+    updates.sex = changes.resident.sex;
+    updates.resident_hash = hashResidentId(changes.resident.digits);
+  }
+  if (changes.chartNo !== undefined && row.chart_no !== changes.chartNo) {
+    updates.chart_no = changes.chartNo;
+  }
+  if (
+    changes.fatherHeight !== undefined &&
+    toOptionalNumber(row.father_height_cm) !== changes.fatherHeight
+  ) {
+    updates.father_height_cm = changes.fatherHeight;
+  }
+  if (
+    changes.motherHeight !== undefined &&
+    toOptionalNumber(row.mother_height_cm) !== changes.motherHeight
+  ) {
+    updates.mother_height_cm = changes.motherHeight;
+  }
+  if (
+    changes.gestationalAgeDays !== undefined &&
+    row.gestational_age_days !== changes.gestationalAgeDays
+  ) {
+    updates.gestational_age_days = changes.gestationalAgeDays;
+  }
+  if (changes.growthReference && row.growth_reference !== changes.growthReference) {
+    updates.growth_reference = changes.growthReference;
+  }
+  return applyPatientUpdates(supabase, row, updates);
+}
+
+export async function searchPatients(
+  supabase: SupabaseClient,
+  term: string,
+  birthDate: string | null
+): Promise<PatientSummary[]> {
+  let request = supabase.from("patients").select(patientSelectFields).is("deleted_at", null);
+  if (term) {
+    request = request.or(`name.ilike.%${term}%,chart_no.ilike.%${term}%`);
+  }
+  if (birthDate) {
+    request = request.eq("birth_date", birthDate);
+  }
+  const { data: patientRows, error: patientError } = await request
+    .order("name", { ascending: true })
+    .limit(SEARCH_LIMIT);
+  if (patientError) {
+    throw patientError;
+  }
+
+  const patients = ((patientRows ?? []) as PatientRow[]).map(mapPatientRow);
+  if (!patients.length) {
+    return [];
+  }
+
+  const { data: visitRows, error: visitError } = await supabase
+    .from("visits")
+    .select(`${visitSelectFields}, patient_id`)
+    .in(
+      "patient_id",
+      patients.map((patient) => patient.id)
+    )
+    .is("deleted_at", null)
+    .order("created_at", { ascending: false });
+  if (visitError) {
+    throw visitError;
+  }
+
+  const visitsByPatient = new Map<string, VisitRow[]>();
+  for (const row of (visitRows ?? []) as (VisitRow & { patient_id: string })[]) {
+    visitsByPatient.set(row.patient_id, [...(visitsByPatient.get(row.patient_id) ?? []), row]);
+  }
+
+  return patients.map((patient) => {
+    const visits = mapVisitRows(visitsByPatient.get(patient.id) ?? []);
+    return { patient, lastVisit: visits[0] ?? null, alerts: visits[0]?.alerts ?? [] };
+  });
+}
+
+export async function listVisits(supabase: SupabaseClient, patientId: string) {
+  const { data, error } = await supabase
+    .from("visits")
+    .select(visitSelectFields)
+    .eq("patient_id", patientId)
+    .is("deleted_at", null)
+    .order("created_at", { ascending: true });
+  if (error) {
+    throw error;
+  }
+  return mapVisitRows(data ?? []);
+}
+
+export async function getActiveVisit(supabase: SupabaseClient, visitId: string) {
+  const { data, error } = await supabase
+    .from("visits")
+    .select("patient_id, created_at")
+    .eq("id", visitId)
+    .is("deleted_at", null)
+    .maybeSingle();
+  if (error) {
+    throw error;
+  }
+  return data ? { patientId: data.patient_id as string, date: data.created_at as string } : null;
+}
+
+export async function insertVisit(
+  supabase: SupabaseClient,
+  patientId: string,
+  record: VisitRecord,
+  alerts: GrowthAlert[]
+) {
+  const { data, error } = await supabase
+    .from("visits")
+    .insert({ patient_id: patientId, ...toVisitColumns(record, alerts) })
+    .select(visitSelectFields)
+    .single();
+  if (error || !data) {
+    throw error;
+  }
+  return mapVisitRows([data])[0];
+}
+
+export async function updateVisit(
+  supabase: SupabaseClient,
+  visitId: string,
+  record: VisitRecord,
+  alerts: GrowthAlert[]
+) {
+  const { data, error } = await supabase
+    .from("visits")
+    .update(toVisitColumns(record, alerts))
+    .eq("id", visitId)
+    .select(visitSelectFields)
+    .single();
+  if (error || !data) {
+    throw error;
+  }
+  return mapVisitRows([data])[0];
+}
+
+export async function updateVisitAlerts(
+  supabase: SupabaseClient,
+  visitId: string,
+  alerts: GrowthAlert[]
+) {
+  const { error } = await supabase.from("visits").update({ alerts }).eq("id", visitId);
+  if (error) {
+    throw error;
+  }
+}
+
+export async function deleteVisit(supabase: SupabaseClient, visitId: string) {
+  const { error } = await supabase
+    .from("visits")
+    .update({ deleted_at: new Date().toISOString() })
+    .eq("id", visitId);
+  if (error) {
+    throw error;
+  }
+}
+
+export async function deletePatient(supabase: SupabaseClient, patientId: string) {
+  const { error } = await supabase
+    .from("patients")
+    .update({ deleted_at: new Date().toISOString() })
+    .eq("id", patientId);
+  if (error) {
+    throw error;
+  }
+}
+
+export async function listBoneAges(supabase: SupabaseClient, patientId: string) {
+  const { data, error } = await supabase
+    .from("bone_ages")
+    .select(boneAgeSelectFields)
+    .eq("patient_id", patientId)
+    .order("measured_on", { ascending: true });
+  if (error) {
+    throw error;
+  }
+  return mapBoneAgeRows((data ?? []) as BoneAgeRow[]);
+}
+
+export async function insertBoneAge(supabase: SupabaseClient, patientId: string, input: BoneAgeInput) {
+  const { data, error } = await supabase
+    .from("bone_ages")
+    .insert({
+      patient_id: patientId,
+      measured_on: input.measuredOn,
+      bone_age_months: input.boneAgeMonths,
+      method: input.method
+    })
+    .select(boneAgeSelectFields)
+    .single();
+  if (error || !data) {
+    throw error;
+  }
+  return mapBoneAgeRows([data as BoneAgeRow])[0];
+}
+
+export async function deleteBoneAge(supabase: SupabaseClient, boneAgeId: string) {
+  const { error } = await supabase.from("bone_ages").delete().eq("id", boneAgeId);
+  if (error) {
+    throw error;
+  }
+}
+
+export async function listTreatments(supabase: SupabaseClient, patientId: string) {
+  const { data, error } = await supabase
+    .from("treatments")
+    .select(treatmentSelectFields)
+    .eq("patient_id", patientId)
+    .order("started_on", { ascending: true });
+  if (error) {
+    throw error;
+  }
+  return mapTreatmentRows((data ?? []) as TreatmentRow[]);
+}
+
+export async function insertTreatment(
+  supabase: SupabaseClient,
+  patientId: string,
+  input: TreatmentInput
+) {
+  const { data, error } = await supabase
+    .from("treatments")
+    .insert({ patient_id: patientId, ...toTreatmentColumns(input) })
+    .select(treatmentSelectFields)
+    .single();
+  if (error || !data) {
+    throw error;
+  }
+  return mapTreatmentRows([data as TreatmentRow])[0];
+}
+
+export async function updateTreatment(
+  supabase: SupabaseClient,
+  treatmentId: string,
+  input: TreatmentInput
+) {
+  const { data, error } = await supabase
+    .from("treatments")
+    .update(toTreatmentColumns(input))
+    .eq("id", treatmentId)
+    .select(treatmentSelectFields)
+    .maybeSingle();
+  if (error) {
+    throw error;
+  }
+  return data ? mapTreatmentRows([data as TreatmentRow])[0] : null;
+}
+
+export async function deleteTreatment(supabase: SupabaseClient, treatmentId: string) {
+  const { error } = await supabase.from("treatments").delete().eq("id", treatmentId);
+  if (error) {
+    throw error;
+  }
+}
+
+export async function applyVisitTreatment(
+  supabase: SupabaseClient,
+  patientId: string,
+  record: VisitRecord
+): Promise<ValidationResult<VisitRecord>> {
+  if (!record.treatmentId) {
+    return { value: record };
+  }
+  const { data, error } = await supabase
+    .from("treatments")
+    .select(treatmentSelectFields)
+    .eq("id", record.treatmentId)
+    .eq("patient_id", patientId)
+    .maybeSingle();
+  if (error) {
+    throw error;
+  }
+  if (!data) {
+    return { error: "투여 요법을 찾을 수 없습니다." };
+  }
+  const treatment = mapTreatmentRows([data as TreatmentRow])[0];
+  if (!isTreatmentActive(treatment, toDateInputValue(record.visitTimestamp))) {
+    return { error: "검사일에 투여 중인 요법이 아닙니다." };
+  }
+  return { value: { ...record, ...treatmentInjectionFlags(treatment.drug) } };
+}
+
+export async function listPatientHistory(supabase: SupabaseClient, patientId: string) {
+  const { data, error } = await supabase
+    .from("audit_log")
+    .select(auditSelectFields)
+    .eq("patient_id", patientId)
+    .order("changed_at", { ascending: false })
+    .order("id", { ascending: false });
+  if (error) {
+    throw error;
+  }
+  return mapAuditRows((data ?? []) as AuditRow[]);
+}
@@ -0,0 +1,361 @@
+import { createHash } from "crypto";
+import { readFileSync } from "fs";
+import * as fontkit from "fontkit";
+import path from "path";
+import { deflateSync } from "zlib";
+
+export type PdfColor = [number, number, number];
+
+export type PdfPoint = { x: number; y: number };
+
+export type PdfStroke = {
+  color: PdfColor;
+  width: number;
+  dash?: number[];
+};
+
+export type PdfShape = {
+  fill?: PdfColor;
+  stroke?: PdfStroke;
+};
+
+export type PdfTextOptions = {
+  size: number;
+  color?: PdfColor;
+  align?: "start" | "middle" | "end";
+  bold?: boolean;
+};
+
+export const A4 = { width: 595.28, height: 841.89 };
+
+// Text is drawn with glyph ids of NanumGothic (OFL), and buildPdf embeds a subset holding only
+// the glyphs the pages used, so the report renders the same in every viewer.
+const FONT_FILE = "node_modules/@kfonts/nanum-gothic/src/NanumGothic.ttf";
+const CIRCLE_KAPPA = 0.5523;
+
+let cachedFont: fontkit.Font | null = null;
+
+function pdfFont() {
+  if (!cachedFont) {
+    const font = fontkit.create(readFileSync(path.join(process.cwd(), FONT_FILE)));
+    if (!("glyphForCodePoint" in font)) {
+      throw new Error("PDF font must be a single TrueType font.");
+    }
+    cachedFont = font;
+  }
+  return cachedFont;
+}
+
+// NanumGothic has no glyph for U+2212 MINUS SIGN, which formatZScore uses for negative z-scores.
+const fontSubstitutes: Record<string, string> = { "\u2212": "-" };
+
+function fontChar(char: string) {
+  return fontSubstitutes[char] ?? char;
+}
+
+function glyphFor(char: string) {
+  return pdfFont().glyphForCodePoint(fontChar(char).codePointAt(0) ?? 0x3f);
+}
+
+function fontUnits(value: number) {
+  return Math.round((value * 1000) / pdfFont().unitsPerEm);
+}
+
+function num(value: number) {
+  return Number(value.toFixed(2)).toString();
+}
+
+function colorOp(color: PdfColor, operator: "rg" | "RG") {
+  return `${color.map((channel) => num(channel)).join(" ")} ${operator}`;
+}
+
+export function parseColor(value: string): PdfColor {
+  const hex = value.match(/^#([0-9a-f]{6})$/i);
+  if (hex) {
+    return [0, 2, 4].map(
+      (offset) => parseInt(hex[1].slice(offset, offset + 2), 16) / 255
+    ) as PdfColor;
+  }
+  const rgba = value.match(/^rgba?\(([^)]+)\)$/);
+  if (rgba) {
+    const [r, g, b, alpha = 1] = rgba[1].split(",").map((part) => Number(part.trim()));
+    // Blend against the white page instead of using transparency groups.
+    return [r, g, b].map((channel) => (channel * alpha + 255 * (1 - alpha)) / 255) as PdfColor;
+  }
+  return [0, 0, 0];
+}
+
+export function textWidth(value: string, size: number) {
+  return Array.from(value).reduce(
+    (sum, char) => sum + (fontUnits(glyphFor(char).advanceWidth) * size) / 1000,
+    0
+  );
+}
+
+export function wrapText(value: string, size: number, maxWidth: number) {
+  const lines: string[] = [];
+  value.split(/\r?\n/).forEach((paragraph) => {
+    let line = "";
+    paragraph.split(/(\s+)/).forEach((word) => {
+      const candidate = line + word;
+      if (!line || textWidth(candidate, size) <= maxWidth) {
+        line = candidate;
+        return;
+      }
+      lines.push(line.trimEnd());
+      line = word.trimStart();
+    });
+    while (textWidth(line, size) > maxWidth) {
+      let cut = line.length - 1;
+      while (cut > 1 && textWidth(line.slice(0, cut), size) > maxWidth) {
+        cut -= 1;
+      }
+      lines.push(line.slice(0, cut));
+      line = line.slice(cut);
+    }
+    lines.push(line.trimEnd());
+  });
+  return lines;
+}
+
+export class PdfPage {
+  readonly width: number;
+  readonly height: number;
+  private operations: string[] = [];
+  // Glyph id to the character it was drawn for, used for the subset and the ToUnicode map.
+  readonly glyphs = new Map<number, string>();
+
+  constructor(width = A4.width, height = A4.height) {
+    this.width = width;
+    this.height = height;
+  }
+
+  private point(x: number, y: number) {
+    return `${num(x)} ${num(this.height - y)}`;
+  }
+
+  private paint(shape: PdfShape, path: string[]) {
+    if (!shape.fill && !shape.stroke) {
+      return;
+    }
+    const state = ["q"];
+    if (shape.fill) {
+      state.push(colorOp(shape.fill, "rg"));
+    }
+    if (shape.stroke) {
+      state.push(
+        colorOp(shape.stroke.color, "RG"),
+        `${num(shape.stroke.width)} w`,
+        `[${(shape.stroke.dash ?? []).map(num).join(" ")}] 0 d`,
+        "1 J 1 j"
+      );
+    }
+    const operator = shape.fill && shape.stroke ? "B" : shape.fill ? "f" : "S";
+    this.operations.push(...state, ...path, operator, "Q");
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number, stroke: PdfStroke) {
+    this.paint({ stroke }, [`${this.point(x1, y1)} m`, `${this.point(x2, y2)} l`]);
+  }
+
+  polyline(points: PdfPoint[], shape: PdfShape, closed = false) {
+    if (points.length < 2) {
+      return;
+    }
+    const path = points.map(
+      (point, index) => `${this.point(point.x, point.y)} ${index === 0 ? "m" : "l"}`
+    );
+    this.paint(shape, closed ? [...path, "h"] : path);
+  }
+
+  rect(x: number, y: number, width: number, height: number, shape: PdfShape) {
+    const bottom = this.height - y - height;
+    this.paint(shape, [`${num(x)} ${num(bottom)} ${num(width)} ${num(height)} re`]);
+  }
+
+  circle(cx: number, cy: number, r: number, shape: PdfShape) {
+    const k = r * CIRCLE_KAPPA;
+    this.paint(shape, [
+      `${this.point(cx + r, cy)} m`,
+      `${this.point(cx + r, cy - k)} ${this.point(cx + k, cy - r)} ${this.point(cx, cy - r)} c`,
+      `${this.point(cx - k, cy - r)} ${this.point(cx - r, cy - k)} ${this.point(cx - r, cy)} c`,
+      `${this.point(cx - r, cy + k)} ${this.point(cx - k, cy + r)} ${this.point(cx, cy + r)} c`,
+      `${this.point(cx + k, cy + r)} ${this.point(cx + r, cy + k)} ${this.point(cx + r, cy)} c`,
+      "h"
+    ]);
+  }
+
+  text(x: number, y: number, value: string, options: PdfTextOptions) {
+    if (!value) {
+      return;
+    }
+    const width = textWidth(value, options.size);
+    const left =
+      options.align === "end" ? x - width : options.align === "middle" ? x - width / 2 : x;
+    const color = options.color ?? [0, 0, 0];
+    this.operations.push(
+      "BT",
+      `/F1 ${num(options.size)} Tf`,
+      colorOp(color, "rg"),
+      ...(options.bold ? [colorOp(color, "RG"), `${num(options.size / 30)} w`, "2 Tr"] : ["0 Tr"]),
+      `${this.point(left, y)} Td`,
+      `<${this.glyphHex(value)}> Tj`,
+      "ET"
+    );
+  }
+
+  private glyphHex(value: string) {
+    return Array.from(value, (char) => {
+      const glyph = glyphFor(char);
+      if (!this.glyphs.has(glyph.id)) {
+        this.glyphs.set(glyph.id, fontChar(char));
+      }
+      return glyph.id.toString(16).padStart(4, "0");
+    }).join("");
+  }
+
+  content() {
+    return this.operations.join("\n");
+  }
+}
+
+function unicodeHex(value: string) {
+  return Buffer.from(value, "utf16le").swap16().toString("hex");
+}
+
+function toUnicodeCmap(glyphs: Map<number, string>) {
+  const entries = Array.from(glyphs, ([id, char]) =>
+    `<${id.toString(16).padStart(4, "0")}> <${unicodeHex(char)}>`
+  );
+  const blocks: string[] = [];
+  for (let index = 0; index < entries.length; index += 100) {
+    const block = entries.slice(index, index + 100);
+    blocks.push(`${block.length} beginbfchar`, ...block, "endbfchar");
+  }
+  return [
+    "/CIDInit /ProcSet findresource begin",
+    "12 dict begin",
+    "begincmap",
+    "/CIDSystemInfo << /Registry (Adobe) /Ordering (UCS) /Supplement 0 >> def",
+    "/CMapName /Adobe-Identity-UCS def",
+    "/CMapType 2 def",
+    "1 begincodespacerange",
+    "<0000> <ffff>",
+    "endcodespacerange",
+    ...blocks,
+    "endcmap",
+    "CMapName currentdict /CMap defineresource pop",
+    "end",
+    "end"
+  ].join("\n");
+}
+
+export function buildPdf(pages: PdfPage[], title: string) {
+  const font = pdfFont();
+  const glyphs = new Map<number, string>();
+  pages.forEach((page) =>
+    page.glyphs.forEach((char, id) => {
+      if (!glyphs.has(id)) {
+        glyphs.set(id, char);
+      }
+    })
+  );
+  const glyphIds = Array.from(glyphs.keys()).sort((a, b) => a - b);
+
+  // The page content keeps the original glyph ids as CIDs; the subset renumbers them from 1 after
+  // .notdef, and CIDToGIDMap translates between the two.
+  const subset = font.createSubset();
+  const cidToGid = Buffer.alloc(((glyphIds[glyphIds.length - 1] ?? 0) + 1) * 2);
+  glyphIds
+    .filter((id) => id !== 0)
+    .forEach((id, index) => {
+      subset.includeGlyph(font.getGlyph(id));
+      cidToGid.writeUInt16BE(index + 1, id * 2);
+    });
+  const fontFile = Buffer.from(subset.encode());
+  const fontName =
+    createHash("md5")
+      .update(glyphIds.join(","))
+      .digest()
+      .subarray(0, 6)
+      .reduce((tag, byte) => tag + String.fromCharCode(65 + (byte % 26)), "") +
+    `+${font.postscriptName}`;
+  const widths = glyphIds
+    .map((id) => `${id} [${fontUnits(font.getGlyph(id).advanceWidth)}]`)
+    .join(" ");
+  const bbox = [font.bbox.minX, font.bbox.minY, font.bbox.maxX, font.bbox.maxY].map(fontUnits);
+
+  const objects: string[] = [];
+  const pageIds = pages.map((_, index) => 9 + index * 2);
+
+  objects[1] = "<< /Type /Catalog /Pages 2 0 R >>";
+  objects[2] =
+    `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(" ")}]` +
+    ` /Count ${pages.length} >>`;
+  objects[3] =
+    `<< /Type /Font /Subtype /Type0 /BaseFont /${fontName} /Encoding /Identity-H` +
+    ` /DescendantFonts [4 0 R] /ToUnicode 8 0 R >>`;
+  objects[4] =
+    `<< /Type /Font /Subtype /CIDFontType2 /BaseFont /${fontName}` +
+    ` /CIDSystemInfo << /Registry (Adobe) /Ordering (Identity) /Supplement 0 >>` +
+    ` /FontDescriptor 5 0 R /CIDToGIDMap 7 0 R /DW 1000 /W [${widths}] >>`;
+  objects[5] =
+    `<< /Type /FontDescriptor /FontName /${fontName} /Flags 4 /FontBBox [${bbox.join(" ")}]` +
+    ` /ItalicAngle ${num(font.italicAngle)} /Ascent ${fontUnits(font.ascent)}` +
+    ` /Descent ${fontUnits(font.descent)} /CapHeight ${fontUnits(font.capHeight)}` +
+    ` /StemV 80 /FontFile2 6 0 R >>`;
+
+  const streams = new Map<number, { data: Buffer; entries?: string }>();
+  streams.set(6, { data: deflateSync(fontFile), entries: `/Length1 ${fontFile.length}` });
+  streams.set(7, { data: deflateSync(cidToGid) });
+  streams.set(8, { data: deflateSync(Buffer.from(toUnicodeCmap(glyphs), "latin1")) });
+  pages.forEach((page, index) => {
+    const id = pageIds[index];
+    objects[id] =
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${num(page.width)} ${num(page.height)}]` +
+      ` /Resources << /Font << /F1 3 0 R >> >> /Contents ${id + 1} 0 R >>`;
+    streams.set(id + 1, { data: deflateSync(Buffer.from(page.content(), "latin1")) });
+  });
+  const infoId = 9 + pages.length * 2;
+  objects[infoId] = `<< /Title <feff${unicodeHex(title)}> /Producer (Growth Tracker) >>`;
+
+  const chunks: Buffer[] = [Buffer.from("%PDF-1.4\n%\xe2\xe3\xcf\xd3\n", "latin1")];
+  const offsets: number[] = [];
+  let length = chunks[0].length;
+  const push = (chunk: Buffer) => {
+    chunks.push(chunk);
+    length += chunk.length;
+  };
+
+  for (let id = 1; id <= infoId; id += 1) {
+    offsets[id] = length;
+    const stream = streams.get(id);
+    if (stream) {
+      const entries = stream.entries ? ` ${stream.entries}` : "";
+      const header =
+        `${id} 0 obj\n<< /Length ${stream.data.length} /Filter /FlateDecode${entries} >>\n` +
+        "stream\n";
+      push(Buffer.from(header, "latin1"));
+      push(stream.data);
+      push(Buffer.from("\nendstream\nendobj\n", "latin1"));
+    } else {
+      push(Buffer.from(`${id} 0 obj\n${objects[id]}\nendobj\n`, "latin1"));
+    }
+  }
+
+  const xref = [
+    "xref",
+    `0 ${infoId + 1}`,
+    "0000000000 65535 f ",
+    ...offsets.slice(1).map((offset) => `${String(offset).padStart(10, "0")} 00000 n `),
+    "trailer",
+    `<< /Size ${infoId + 1} /Root 1 0 R /Info ${infoId} 0 R >>`,
+    "startxref",
+    String(length),
+    "%%EOF",
+    ""
+  ].join("\n");
+  push(Buffer.from(xref, "latin1"));
+
+  return new Uint8Array(Buffer.concat(chunks));
+}
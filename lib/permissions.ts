@@ -0,0 +1,46 @@
+export type StaffRole = "nurse" | "physician" | "admin";
+
+export type Permission =
+  | "editVisits"
+  | "deleteRecords"
+  | "setInjections"
+  | "manageStaff"
+  | "manageTrash"
+  | "manageAlerts"
+  | "setGrowthReference";
+
+export const staffRoles: StaffRole[] = ["nurse", "physician", "admin"];
+
+export const staffRoleLabels: Record<StaffRole, string> = {
+  nurse: "간호사",
+  physician: "의사",
+  admin: "관리자"
+};
+
+const rolePermissions: Record<StaffRole, Permission[]> = {
+  nurse: [],
+  physician: [
+    "editVisits",
+    "deleteRecords",
+    "setInjections",
+    "manageAlerts",
+    "setGrowthReference"
+  ],
+  admin: [
+    "editVisits",
+    "deleteRecords",
+    "setInjections",
+    "manageStaff",
+    "manageTrash",
+    "manageAlerts",
+    "setGrowthReference"
+  ]
+};
+
+export function isStaffRole(value: unknown): value is StaffRole {
+  return typeof value === "string" && (staffRoles as string[]).includes(value);
+}
+
+export function hasPermission(role: StaffRole | null | undefined, permission: Permission) {
+  return role ? rolePermissions[role].includes(permission) : false;
+}
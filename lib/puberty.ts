@@ -0,0 +1,73 @@
+import { formatAge } from "./format";
+
+export type PubertyStaging = {
+  tannerBreastGenital: number | null;
+  tannerPubicHair: number | null;
+  testicularVolume: number | null;
+};
+
+export type PubertyOnset<T extends PubertyStaging> = {
+  visit: T;
+  early: boolean;
+};
+
+export const TANNER_STAGES = [1, 2, 3, 4, 5];
+export const MAX_TESTICULAR_VOLUME_ML = 30;
+
+// Tanner 2 or a 4 mL testis marks onset; before 9 years in boys and 8 years in girls it is precocious.
+export const PUBERTAL_TESTICULAR_VOLUME_ML = 4;
+export const PRECOCIOUS_ONSET_MONTHS: Record<string, number> = { "1": 108, "2": 96 };
+
+export function breastGenitalLabel(sexKey: string | null) {
+  return sexKey === "1" ? "성기" : sexKey === "2" ? "유방" : "유방/성기";
+}
+
+export function hasPubertyStaging(staging: PubertyStaging) {
+  return (
+    staging.tannerBreastGenital !== null ||
+    staging.tannerPubicHair !== null ||
+    staging.testicularVolume !== null
+  );
+}
+
+export function isPubertal(staging: PubertyStaging, sexKey: string | null) {
+  if ((staging.tannerBreastGenital ?? 1) >= 2) {
+    return true;
+  }
+  return sexKey === "1" && (staging.testicularVolume ?? 0) >= PUBERTAL_TESTICULAR_VOLUME_ML;
+}
+
+export function isEarlyOnset(ageMonths: number, sexKey: string | null) {
+  const limit = sexKey ? PRECOCIOUS_ONSET_MONTHS[sexKey] : undefined;
+  return limit !== undefined && ageMonths < limit;
+}
+
+export function findPubertyOnset<T extends PubertyStaging & { ageMonths: number }>(
+  visits: T[],
+  sexKey: string | null
+): PubertyOnset<T> | null {
+  const visit = [...visits]
+    .sort((a, b) => a.ageMonths - b.ageMonths)
+    .find((candidate) => isPubertal(candidate, sexKey));
+  return visit ? { visit, early: isEarlyOnset(visit.ageMonths, sexKey) } : null;
+}
+
+export function formatTannerStage(staging: PubertyStaging, sexKey: string | null) {
+  const parts: string[] = [];
+  if (staging.tannerBreastGenital !== null) {
+    parts.push(`${sexKey === "1" ? "G" : "B"}${staging.tannerBreastGenital}`);
+  }
+  if (staging.tannerPubicHair !== null) {
+    parts.push(`P${staging.tannerPubicHair}`);
+  }
+  if (staging.testicularVolume !== null) {
+    parts.push(`${staging.testicularVolume}mL`);
+  }
+  return parts.join(" ");
+}
+
+export function formatPubertyOnset<T extends PubertyStaging & { ageMonths: number }>(
+  onset: PubertyOnset<T>
+) {
+  return `${formatAge(onset.visit.ageMonths)}에 발현${onset.early ? " · 조기 발현" : ""}`;
+}
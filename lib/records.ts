@@ -0,0 +1,253 @@
+import type { GrowthAlert } from "./alerts";
+import type { BoneAgeMethod, BoneAgeReading } from "./boneAge";
+import type { GrowthReference } from "./growth";
+import { toVisitTimestamp } from "./format";
+import type { StaffRole } from "./permissions";
+import type { DoseUnit, Treatment, TreatmentDrug, TreatmentFrequency } from "./treatment";
+
+export type Patient = {
+  id: string;
+  name: string;
+  birthDate: string;
+  sex: string;
+  chartNo: string | null;
+  fatherHeight: number | null;
+  motherHeight: number | null;
+  gestationalAgeDays: number | null;
+  growthReference: GrowthReference;
+};
+
+export type PatientRow = {
+  id: string;
+  name: string;
+  birth_date: string;
+  sex: string;
+  chart_no: string | null;
+  father_height_cm: number | string | null;
+  mother_height_cm: number | string | null;
+  gestational_age_days: number | null;
+  growth_reference: GrowthReference;
+};
+
+export type Visit = {
+  id: string;
+  date: string;
+  height: number;
+  weight: number;
+  headCircumference: number | null;
+  bmi: number;
+  ageMonths: number;
+  growthInjection: boolean;
+  suppressionInjection: boolean;
+  treatmentId: string | null;
+  tannerBreastGenital: number | null;
+  tannerPubicHair: number | null;
+  testicularVolume: number | null;
+  alerts: GrowthAlert[];
+};
+
+export type VisitRow = {
+  id: string;
+  height_cm: number | string | null;
+  weight_kg: number | string | null;
+  head_circumference_cm: number | string | null;
+  bmi: number | string | null;
+  age_months: number | string;
+  created_at: string;
+  growth_injection: boolean | null;
+  suppression_injection: boolean | null;
+  treatment_id: string | null;
+  tanner_breast_genital: number | null;
+  tanner_pubic_hair: number | null;
+  testicular_volume_ml: number | string | null;
+  alerts: GrowthAlert[] | null;
+};
+
+export type BoneAgeRow = {
+  id: string;
+  measured_on: string;
+  bone_age_months: number;
+  method: BoneAgeMethod;
+};
+
+export type TreatmentRow = {
+  id: string;
+  drug: TreatmentDrug;
+  dose: number | string;
+  dose_unit: DoseUnit;
+  frequency: TreatmentFrequency;
+  started_on: string;
+  stopped_on: string | null;
+  lot_number: string | null;
+};
+
+export type StaffProfile = {
+  userId: string;
+  name: string;
+  role: StaffRole;
+  clinicName: string;
+};
+
+export type StaffMember = {
+  userId: string;
+  name: string;
+  role: StaffRole;
+};
+
+export type PatientMatch = "resident" | "chart" | null;
+
+export type ImportRowStatus = "new" | "duplicate" | "error";
+
+export type ImportPreviewRow = {
+  line: number;
+  name: string;
+  visitDate: string;
+  height: number | null;
+  weight: number | null;
+  status: ImportRowStatus;
+  newPatient: boolean;
+  message: string | null;
+};
+
+export type TrashKind = "patients" | "visits";
+
+export type TrashedPatient = {
+  patient: Patient;
+  deletedAt: string;
+};
+
+export type TrashedVisit = {
+  visit: Visit;
+  patientId: string;
+  patientName: string;
+  deletedAt: string;
+};
+
+export type AuditTable = "patients" | "visits";
+
+export type AuditAction = "insert" | "update" | "delete" | "restore" | "purge";
+
+export type AuditEntry = {
+  id: number;
+  table: AuditTable;
+  recordId: string;
+  action: AuditAction;
+  changedBy: string | null;
+  changedAt: string;
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+};
+
+export type AuditRow = {
+  id: number;
+  table_name: AuditTable;
+  record_id: string;
+  action: AuditAction;
+  changed_by_name: string | null;
+  changed_at: string;
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+};
+
+export type PatientSummary = {
+  patient: Patient;
+  lastVisit: Visit | null;
+  alerts: GrowthAlert[];
+};
+
+export const patientSelectFields =
+  "id, name, birth_date, sex, chart_no, father_height_cm, mother_height_cm, gestational_age_days, growth_reference";
+
+export const visitSelectFields =
+  "id, height_cm, weight_kg, head_circumference_cm, bmi, age_months, created_at, growth_injection, suppression_injection, treatment_id, tanner_breast_genital, tanner_pubic_hair, testicular_volume_ml, alerts";
+
+export const boneAgeSelectFields = "id, measured_on, bone_age_months, method";
+
+export const treatmentSelectFields =
+  "id, drug, dose, dose_unit, frequency, started_on, stopped_on, lot_number";
+
+export const auditSelectFields =
+  "id, table_name, record_id, action, changed_by_name, changed_at, before, after";
+
+export function toNumber(value: number | string | null) {
+  if (value === null || value === undefined) {
+    return 0;
+  }
+  return typeof value === "number" ? value : Number.parseFloat(value);
+}
+
+export function toOptionalNumber(value: number | string | null) {
+  if (value === null || value === undefined || value === "") {
+    return null;
+  }
+  const parsed = toNumber(value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+export function mapPatientRow(row: PatientRow): Patient {
+  return {
+    id: row.id,
+    name: row.name,
+    birthDate: row.birth_date,
+    sex: row.sex,
+    chartNo: row.chart_no,
+    fatherHeight: toOptionalNumber(row.father_height_cm),
+    motherHeight: toOptionalNumber(row.mother_height_cm),
+    gestationalAgeDays: row.gestational_age_days,
+    growthReference: row.growth_reference
+  };
+}
+
+export function mapVisitRows(rows: VisitRow[]): Visit[] {
+  return rows.map((row) => ({
+    id: row.id,
+    date: row.created_at,
+    height: toNumber(row.height_cm),
+    weight: toNumber(row.weight_kg),
+    headCircumference: toOptionalNumber(row.head_circumference_cm),
+    bmi: toNumber(row.bmi),
+    ageMonths: toNumber(row.age_months),
+    growthInjection: Boolean(row.growth_injection),
+    suppressionInjection: Boolean(row.suppression_injection),
+    treatmentId: row.treatment_id ?? null,
+    tannerBreastGenital: row.tanner_breast_genital ?? null,
+    tannerPubicHair: row.tanner_pubic_hair ?? null,
+    testicularVolume: toOptionalNumber(row.testicular_volume_ml),
+    alerts: row.alerts ?? []
+  }));
+}
+
+export function mapBoneAgeRows(rows: BoneAgeRow[]): BoneAgeReading[] {
+  return rows.map((row) => ({
+    id: row.id,
+    date: toVisitTimestamp(row.measured_on) ?? row.measured_on,
+    boneAgeMonths: row.bone_age_months,
+    method: row.method
+  }));
+}
+
+export function mapTreatmentRows(rows: TreatmentRow[]): Treatment[] {
+  return rows.map((row) => ({
+    id: row.id,
+    drug: row.drug,
+    dose: toNumber(row.dose),
+    unit: row.dose_unit,
+    frequency: row.frequency,
+    startedOn: row.started_on,
+    stoppedOn: row.stopped_on,
+    lotNumber: row.lot_number
+  }));
+}
+
+export function mapAuditRows(rows: AuditRow[]): AuditEntry[] {
+  return rows.map((row) => ({
+    id: row.id,
+    table: row.table_name,
+    recordId: row.record_id,
+    action: row.action,
+    changedBy: row.changed_by_name,
+    changedAt: row.changed_at,
+    before: row.before,
+    after: row.after
+  }));
+}
@@ -0,0 +1,363 @@
+import type { MetricChartProps } from "../components/MetricChart";
+import {
+  buildInjectionEvents,
+  buildPubertyMarks,
+  buildReferenceCurves,
+  buildTreatmentSpans
+} from "./chartData";
+import { drawMetricChart } from "./chartPdf";
+import { formatAge, formatDate, formatGestationalAge, toDateInputValue } from "./format";
+import {
+  bmiStatus,
+  computeHeightVelocity,
+  computeMidParentalHeight,
+  correctAgeMonths,
+  evaluateGrowth,
+  findVelocityBaseline,
+  formatEvaluation,
+  growthReferenceLabels,
+  GrowthTable
+} from "./growth";
+import { buildPdf, parseColor, PdfPage, textWidth, wrapText } from "./pdf";
+import type { Patient, Visit } from "./records";
+import type { Treatment } from "./treatment";
+
+export type ReportTables = {
+  height: GrowthTable | null;
+  weight: GrowthTable | null;
+  bmi: GrowthTable | null;
+};
+
+export type GrowthReportInput = {
+  clinicName: string;
+  authorName: string;
+  patient: Patient;
+  visits: Visit[];
+  treatments: Treatment[];
+  tables: ReportTables;
+  comment: string;
+  issuedAt: Date;
+};
+
+const ADULT_AGE_MONTHS = 216;
+const MARGIN = 40;
+const TABLE_ROW_HEIGHT = 18;
+
+const colors = {
+  ink: parseColor("#1f2a2e"),
+  muted: parseColor("#5e6b72"),
+  accent: parseColor("#1f8a70"),
+  outline: parseColor("#d8cec0"),
+  panel: parseColor("#fff8f0")
+};
+
+const visitColumns: { label: string; width: number }[] = [
+  { label: "검사일", width: 76 },
+  { label: "나이", width: 68 },
+  { label: "키 (cm)", width: 50 },
+  { label: "키 백분위", width: 56 },
+  { label: "몸무게 (kg)", width: 62 },
+  { label: "몸무게 백분위", width: 72 },
+  { label: "BMI", width: 40 },
+  { label: "BMI 백분위", width: 59 },
+  { label: "주사", width: 32 }
+];
+
+export function maskName(name: string) {
+  const chars = Array.from(name.trim());
+  if (chars.length <= 1) {
+    return name;
+  }
+  if (chars.length === 2) {
+    return `${chars[0]}*`;
+  }
+  return `${chars[0]}${"*".repeat(chars.length - 2)}${chars[chars.length - 1]}`;
+}
+
+export function maskChartNo(chartNo: string | null) {
+  if (!chartNo) {
+    return "—";
+  }
+  const visible = Math.min(3, Math.floor(chartNo.length / 2));
+  return `${"*".repeat(chartNo.length - visible)}${chartNo.slice(chartNo.length - visible)}`;
+}
+
+function percentileText(table: GrowthTable | null, sexKey: string, age: number, value: number) {
+  const evaluation = evaluateGrowth(table, sexKey, age, value);
+  return evaluation ? evaluation.percentile.toFixed(1) : "—";
+}
+
+function chartRange(values: number[], pad: number) {
+  const span = Math.max(1, Math.max(...values) - Math.min(...values));
+  const margin = Math.max(pad, Math.round(span * 0.1));
+  return { min: Math.max(0, Math.min(...values) - margin), max: Math.max(...values) + margin };
+}
+
+function drawHeader(page: PdfPage, input: GrowthReportInput) {
+  page.text(MARGIN, MARGIN + 12, input.clinicName, { size: 11, color: colors.accent, bold: true });
+  page.text(MARGIN, MARGIN + 38, "성장 발달 보고서", { size: 20, color: colors.ink, bold: true });
+  page.text(page.width - MARGIN, MARGIN + 38, `발행일 ${formatDate(input.issuedAt.toISOString())}`, {
+    size: 9,
+    color: colors.muted,
+    align: "end"
+  });
+  page.line(MARGIN, MARGIN + 50, page.width - MARGIN, MARGIN + 50, { color: colors.ink, width: 1 });
+}
+
+function drawFooter(page: PdfPage, index: number, count: number) {
+  const y = page.height - MARGIN + 16;
+  page.text(MARGIN, y, "이 보고서는 진료 참고용이며 개인정보 일부를 가렸습니다.", {
+    size: 8,
+    color: colors.muted
+  });
+  page.text(page.width - MARGIN, y, `${index + 1} / ${count}`, {
+    size: 8,
+    color: colors.muted,
+    align: "end"
+  });
+}
+
+function drawSectionTitle(page: PdfPage, y: number, title: string) {
+  page.text(MARGIN, y, title, { size: 12, color: colors.ink, bold: true });
+  return y + 10;
+}
+
+function drawFields(page: PdfPage, top: number, fields: [string, string][], columns: number) {
+  const columnWidth = (page.width - MARGIN * 2) / columns;
+  fields.forEach(([label, value], index) => {
+    const x = MARGIN + (index % columns) * columnWidth;
+    const y = top + Math.floor(index / columns) * 30;
+    page.text(x, y + 10, label, { size: 8, color: colors.muted });
+    page.text(x, y + 24, value, { size: 10, color: colors.ink });
+  });
+  return top + Math.ceil(fields.length / columns) * 30;
+}
+
+function drawVisitTableHeader(page: PdfPage, y: number) {
+  page.rect(MARGIN, y, page.width - MARGIN * 2, TABLE_ROW_HEIGHT, { fill: colors.panel });
+  let x = MARGIN + 4;
+  visitColumns.forEach((column) => {
+    page.text(x, y + 12, column.label, { size: 8, color: colors.muted });
+    x += column.width;
+  });
+  return y + TABLE_ROW_HEIGHT;
+}
+
+export function buildGrowthReport(input: GrowthReportInput) {
+  const { patient, tables } = input;
+  const sexKey = patient.sex;
+  const visits = [...input.visits].sort(
+    (a, b) => new Date(a.date).getTime() - new Date(b.date).getTime()
+  );
+  const latest = visits[visits.length - 1] ?? null;
+  const ageOf = (visit: Visit) => correctAgeMonths(visit.ageMonths, patient.gestationalAgeDays);
+
+  const baseline = latest ? findVelocityBaseline(visits, latest) : null;
+  const velocity = latest && baseline ? computeHeightVelocity(baseline, latest) : null;
+  const midParental = computeMidParentalHeight(sexKey, patient.fatherHeight, patient.motherHeight);
+  const showTarget = Boolean(midParental && latest && latest.ageMonths >= 36);
+
+  const pages: PdfPage[] = [];
+  let page = new PdfPage();
+  pages.push(page);
+  drawHeader(page, input);
+
+  let y = drawSectionTitle(page, MARGIN + 78, "환자 정보");
+  y = drawFields(
+    page,
+    y,
+    [
+      ["이름", maskName(patient.name)],
+      ["생년월", patient.birthDate.slice(0, 7).replace("-", ".")],
+      ["성별", sexKey === "1" ? "남" : "여"],
+      ["차트번호", maskChartNo(patient.chartNo)],
+      ["최근 검사 나이", latest ? formatAge(latest.ageMonths) : "—"],
+      [
+        "재태 기간",
+        patient.gestationalAgeDays !== null ? formatGestationalAge(patient.gestationalAgeDays) : "—"
+      ],
+      ["성장 기준", growthReferenceLabels[patient.growthReference]]
+    ],
+    3
+  );
+
+  y = drawSectionTitle(page, y + 22, latest ? `최근 측정 (${formatDate(latest.date)})` : "최근 측정");
+  const latestAge = latest ? ageOf(latest) : 0;
+  const bmiEvaluation = latest ? evaluateGrowth(tables.bmi, sexKey, latestAge, latest.bmi) : null;
+  const velocityText = velocity
+    ? `${velocity.velocity.toFixed(1)} cm/년 (${velocity.intervalDays}일 간격)`
+    : "측정 간격 4개월 이상 필요";
+  const targetText = midParental
+    ? `${midParental.target.toFixed(1)} cm ` +
+      `(${midParental.min.toFixed(1)}~${midParental.max.toFixed(1)}) · ` +
+      formatEvaluation(evaluateGrowth(tables.height, sexKey, ADULT_AGE_MONTHS, midParental.target))
+    : "부모 키 미입력";
+  y = drawFields(
+    page,
+    y,
+    [
+      [
+        "키",
+        latest
+          ? `${latest.height.toFixed(1)} cm · ${formatEvaluation(
+              evaluateGrowth(tables.height, sexKey, latestAge, latest.height)
+            )}`
+          : "—"
+      ],
+      [
+        "몸무게",
+        latest
+          ? `${latest.weight.toFixed(1)} kg · ${formatEvaluation(
+              evaluateGrowth(tables.weight, sexKey, latestAge, latest.weight)
+            )}`
+          : "—"
+      ],
+      ["BMI", latest ? `${latest.bmi.toFixed(1)} · ${bmiStatus(bmiEvaluation)}` : "—"],
+      ["성장 속도", velocityText],
+      ["목표키 (중간부모키)", targetText]
+    ],
+    2
+  );
+
+  const ages = visits.map(ageOf);
+  const ageRange = ages.length ? chartRange(ages, 3) : undefined;
+  const events = buildInjectionEvents(visits, patient.gestationalAgeDays);
+  const treatmentSpans = buildTreatmentSpans(
+    input.treatments,
+    patient.birthDate,
+    patient.gestationalAgeDays,
+    toDateInputValue(input.issuedAt.toISOString())
+  );
+  const chartAgeFormatter = (value: number) => formatAge(Math.round(value));
+  const charts: { title: string; props: MetricChartProps }[] = [
+    {
+      title: "키 (cm)",
+      props: {
+        metric: "height",
+        values: visits.map((visit) => visit.height),
+        labels: [],
+        xValues: ages,
+        xRange:
+          ageRange && showTarget
+            ? { min: ageRange.min, max: Math.max(ageRange.max, ADULT_AGE_MONTHS + 6) }
+            : ageRange,
+        referenceCurves: buildReferenceCurves(tables.height, sexKey),
+        targetRange:
+          midParental && showTarget
+            ? {
+                x: ADULT_AGE_MONTHS,
+                value: midParental.target,
+                min: midParental.min,
+                max: midParental.max,
+                label: `목표키 ${midParental.target.toFixed(1)}`
+              }
+            : undefined,
+        pubertyMarks: buildPubertyMarks(visits, sexKey, patient.gestationalAgeDays),
+        events,
+        treatmentSpans,
+        xLabelFormatter: chartAgeFormatter
+      }
+    },
+    {
+      title: "몸무게 (kg)",
+      props: {
+        metric: "weight",
+        values: visits.map((visit) => visit.weight),
+        labels: [],
+        xValues: ages,
+        xRange: ageRange,
+        referenceCurves: buildReferenceCurves(tables.weight, sexKey),
+        events,
+        treatmentSpans,
+        xLabelFormatter: chartAgeFormatter
+      }
+    }
+  ];
+
+  const chartWidth = page.width - MARGIN * 2;
+  const chartHeight = (chartWidth * 240) / 600;
+  y += 14;
+  charts.forEach((chart) => {
+    y = drawSectionTitle(page, y + 8, chart.title);
+    page.rect(MARGIN, y, chartWidth, chartHeight, {
+      stroke: { color: colors.outline, width: 0.8 }
+    });
+    drawMetricChart(page, chart.props, { x: MARGIN, y, width: chartWidth, height: chartHeight });
+    y += chartHeight + 6;
+  });
+
+  page = new PdfPage();
+  pages.push(page);
+  drawHeader(page, input);
+  y = drawSectionTitle(page, MARGIN + 78, `방문 기록 (${visits.length}건)`);
+  y = drawVisitTableHeader(page, y);
+  const bottom = page.height - MARGIN - 20;
+  visits.forEach((visit) => {
+    if (y + TABLE_ROW_HEIGHT > bottom) {
+      page = new PdfPage();
+      pages.push(page);
+      drawHeader(page, input);
+      y = drawVisitTableHeader(page, MARGIN + 70);
+    }
+    const age = ageOf(visit);
+    const cells = [
+      formatDate(visit.date),
+      formatAge(visit.ageMonths),
+      visit.height.toFixed(1),
+      percentileText(tables.height, sexKey, age, visit.height),
+      visit.weight.toFixed(1),
+      percentileText(tables.weight, sexKey, age, visit.weight),
+      visit.bmi.toFixed(1),
+      percentileText(tables.bmi, sexKey, age, visit.bmi),
+      [visit.growthInjection && "성장", visit.suppressionInjection && "억제"]
+        .filter(Boolean)
+        .join("·") || "—"
+    ];
+    let x = MARGIN + 4;
+    cells.forEach((cell, index) => {
+      page.text(x, y + 12, cell, { size: 8, color: colors.ink });
+      x += visitColumns[index].width;
+    });
+    page.line(MARGIN, y + TABLE_ROW_HEIGHT, page.width - MARGIN, y + TABLE_ROW_HEIGHT, {
+      color: colors.outline,
+      width: 0.5
+    });
+    y += TABLE_ROW_HEIGHT;
+  });
+  if (!visits.length) {
+    page.text(MARGIN + 4, y + 14, "저장된 방문 기록이 없습니다.", { size: 9, color: colors.muted });
+    y += TABLE_ROW_HEIGHT;
+  }
+
+  const commentLines = wrapText(input.comment || " ", 10, page.width - MARGIN * 2 - 24);
+  const boxHeight = Math.max(110, commentLines.length * 15 + 50);
+  if (y + 40 + boxHeight > bottom) {
+    page = new PdfPage();
+    pages.push(page);
+    drawHeader(page, input);
+    y = MARGIN + 50;
+  }
+  y = drawSectionTitle(page, y + 30, "의사 소견");
+  page.rect(MARGIN, y, page.width - MARGIN * 2, boxHeight, {
+    stroke: { color: colors.outline, width: 0.8 }
+  });
+  commentLines.forEach((line, index) => {
+    page.text(MARGIN + 12, y + 22 + index * 15, line, { size: 10, color: colors.ink });
+  });
+  const signature = `${input.authorName} (서명)`;
+  page.text(page.width - MARGIN - 12, y + boxHeight - 12, signature, {
+    size: 9,
+    color: colors.muted,
+    align: "end"
+  });
+  page.line(
+    page.width - MARGIN - 12 - textWidth(signature, 9),
+    y + boxHeight - 9,
+    page.width - MARGIN - 12,
+    y + boxHeight - 9,
+    { color: colors.outline, width: 0.5 }
+  );
+
+  pages.forEach((item, index) => drawFooter(item, index, pages.length));
+  return buildPdf(pages, `성장 발달 보고서 - ${maskName(patient.name)}`);
+}
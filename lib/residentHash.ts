@@ -0,0 +1,9 @@
+import { createHmac } from "crypto";
+
+const hashKey = process.env.RESIDENT_ID_HASH_KEY ?? "";
+
+export const isResidentHashConfigured = Boolean(hashKey);
+
+export function hashResidentId(digits: string) {
+  return createHmac("sha256", hashKey).update(digits).digest("hex");
+}
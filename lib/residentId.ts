@@ -0,0 +1,113 @@
+import { parseDateInput } from "./format";
+
+export type AgeInfo = {
+  birth: Date;
+  ageMonths: number;
+};
+
+const centuryMap: Record<string, number> = {
+  "1": 1900,
+  "2": 1900,
+  "3": 2000,
+  "4": 2000,
+  "5": 1900,
+  "6": 1900,
+  "7": 2000,
+  "8": 2000
+};
+
+export function normalizeResidentId(value: string) {
+  return value.replace(/\D/g, "");
+}
+
+// Monthly birthdays fall on the last day of shorter months (Jan 31 -> Feb 28), like date + 1 month.
+function monthlyBirthday(birth: Date, months: number) {
+  const year = birth.getFullYear();
+  const month = birth.getMonth() + months;
+  const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  return Date.UTC(year, month, Math.min(birth.getDate(), lastDay));
+}
+
+// Completed months plus the elapsed fraction of the current month, to the day.
+export function getAgeMonths(birth: Date, onDate: Date) {
+  const day = Date.UTC(onDate.getFullYear(), onDate.getMonth(), onDate.getDate());
+  let months =
+    (onDate.getFullYear() - birth.getFullYear()) * 12 +
+    (onDate.getMonth() - birth.getMonth());
+  if (monthlyBirthday(birth, months) > day) {
+    months -= 1;
+  }
+  const start = monthlyBirthday(birth, months);
+  const end = monthlyBirthday(birth, months + 1);
+  return months + (day - start) / (end - start);
+}
+
+export function getSexKey(value: string) {
+  const digits = normalizeResidentId(value);
+  if (digits.length < 7) {
+    return null;
+  }
+  const genderCode = digits[6];
+  if (["1", "3", "5", "7"].includes(genderCode)) {
+    return "1";
+  }
+  if (["2", "4", "6", "8"].includes(genderCode)) {
+    return "2";
+  }
+  return null;
+}
+
+export function parseResidentId(value: string, referenceDate: Date = new Date()): AgeInfo | null {
+  const digits = normalizeResidentId(value);
+  if (digits.length !== 13) {
+    return null;
+  }
+
+  const yy = Number.parseInt(digits.slice(0, 2), 10);
+  const mm = Number.parseInt(digits.slice(2, 4), 10);
+  const dd = Number.parseInt(digits.slice(4, 6), 10);
+  const genderCode = digits[6];
+  const century = centuryMap[genderCode];
+
+  if (!century || mm < 1 || mm > 12 || dd < 1 || dd > 31) {
+    return null;
+  }
+
+  const year = century + yy;
+  const birth = new Date(year, mm - 1, dd);
+  if (
+    birth.getFullYear() !== year ||
+    birth.getMonth() !== mm - 1 ||
+    birth.getDate() !== dd
+  ) {
+    return null;
+  }
+
+  const ageMonths = getAgeMonths(birth, referenceDate);
+
+  if (ageMonths < 0) {
+    return null;
+  }
+
+  return { birth, ageMonths };
+}
+
+export function toBirthDateValue(birth: Date) {
+  const yyyy = String(birth.getFullYear()).padStart(4, "0");
+  const mm = String(birth.getMonth() + 1).padStart(2, "0");
+  const dd = String(birth.getDate()).padStart(2, "0");
+  return `${yyyy}-${mm}-${dd}`;
+}
+
+export function getAgeInfo(birthDate: string, referenceDate: Date = new Date()): AgeInfo | null {
+  const birth = parseDateInput(birthDate);
+  if (!birth) {
+    return null;
+  }
+  const ageMonths = getAgeMonths(birth, referenceDate);
+  return ageMonths < 0 ? null : { birth, ageMonths };
+}
+
+export function formatBirthSex(birthDate: string, sexKey: string) {
+  return `${birthDate.replace(/-/g, ".")} · ${sexKey === "1" ? "남" : "여"}`;
+}
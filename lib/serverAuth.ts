@@ -0,0 +1,71 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { NextRequest, NextResponse } from "next/server";
+import { errorResponse, notConfiguredResponse, serverErrorResponse } from "./apiResponse";
+import { hasPermission, Permission, StaffRole } from "./permissions";
+import type { StaffProfile } from "./records";
+import { createRequestSupabase, isServerSupabaseConfigured } from "./supabaseServer";
+
+export type StaffSession = {
+  supabase: SupabaseClient;
+  userId: string;
+  clinicId: string;
+  profile: StaffProfile;
+};
+
+type StaffRow = {
+  clinic_id: string;
+  name: string;
+  role: StaffRole;
+  clinics: { name: string } | null;
+};
+
+function readBearerToken(request: NextRequest) {
+  const header = request.headers.get("authorization") ?? "";
+  return header.startsWith("Bearer ") ? header.slice("Bearer ".length).trim() : "";
+}
+
+export async function requireStaff(request: NextRequest): Promise<StaffSession | NextResponse> {
+  if (!isServerSupabaseConfigured) {
+    return notConfiguredResponse();
+  }
+
+  const token = readBearerToken(request);
+  if (!token) {
+    return errorResponse("로그인이 필요합니다.", 401);
+  }
+
+  const supabase = createRequestSupabase(token);
+  const { data: userData, error: userError } = await supabase.auth.getUser(token);
+  if (userError || !userData.user) {
+    return errorResponse("로그인이 필요합니다.", 401);
+  }
+
+  const { data, error } = await supabase
+    .from("staff")
+    .select("clinic_id, name, role, clinics(name)")
+    .eq("user_id", userData.user.id)
+    .maybeSingle();
+  if (error) {
+    return serverErrorResponse(error);
+  }
+  if (!data) {
+    return errorResponse("등록된 직원 계정이 아닙니다.", 403);
+  }
+
+  const staff = data as unknown as StaffRow;
+  return {
+    supabase,
+    userId: userData.user.id,
+    clinicId: staff.clinic_id,
+    profile: {
+      userId: userData.user.id,
+      name: staff.name,
+      role: staff.role,
+      clinicName: staff.clinics?.name ?? ""
+    }
+  };
+}
+
+export function requirePermission(session: StaffSession, permission: Permission, message: string) {
+  return hasPermission(session.profile.role, permission) ? null : errorResponse(message, 403);
+}
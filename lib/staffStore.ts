@@ -0,0 +1,72 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { StaffRole } from "./permissions";
+import type { StaffMember } from "./records";
+
+type StaffMemberRow = {
+  user_id: string;
+  name: string;
+  role: StaffRole;
+};
+
+const staffSelectFields = "user_id, name, role";
+
+function mapStaffRow(row: StaffMemberRow): StaffMember {
+  return { userId: row.user_id, name: row.name, role: row.role };
+}
+
+export async function listStaff(supabase: SupabaseClient) {
+  const { data, error } = await supabase
+    .from("staff")
+    .select(staffSelectFields)
+    .order("name", { ascending: true });
+  if (error) {
+    throw error;
+  }
+  return ((data ?? []) as StaffMemberRow[]).map(mapStaffRow);
+}
+
+export async function inviteStaff(
+  serviceSupabase: SupabaseClient,
+  clinicId: string,
+  input: { email: string; name: string; role: StaffRole }
+) {
+  const { data: invited, error: inviteError } =
+    await serviceSupabase.auth.admin.inviteUserByEmail(input.email);
+  if (inviteError || !invited.user) {
+    throw inviteError;
+  }
+  const { data, error } = await serviceSupabase
+    .from("staff")
+    .insert({ user_id: invited.user.id, clinic_id: clinicId, name: input.name, role: input.role })
+    .select(staffSelectFields)
+    .single();
+  if (error || !data) {
+    throw error;
+  }
+  return mapStaffRow(data as StaffMemberRow);
+}
+
+export async function updateStaffRole(supabase: SupabaseClient, userId: string, role: StaffRole) {
+  const { data, error } = await supabase
+    .from("staff")
+    .update({ role })
+    .eq("user_id", userId)
+    .select(staffSelectFields)
+    .maybeSingle();
+  if (error) {
+    throw error;
+  }
+  return data ? mapStaffRow(data as StaffMemberRow) : null;
+}
+
+export async function removeStaff(supabase: SupabaseClient, userId: string) {
+  const { data, error } = await supabase
+    .from("staff")
+    .delete()
+    .eq("user_id", userId)
+    .select("user_id");
+  if (error) {
+    throw error;
+  }
+  return (data ?? []).length > 0;
+}
@@ -0,0 +1,143 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import {
+  mapPatientRow,
+  mapVisitRows,
+  PatientRow,
+  patientSelectFields,
+  TrashedPatient,
+  TrashedVisit,
+  TrashKind,
+  VisitRow,
+  visitSelectFields
+} from "./records";
+
+type TrashedPatientRow = PatientRow & { deleted_at: string };
+
+type TrashedVisitRow = VisitRow & {
+  deleted_at: string;
+  patient_id: string;
+  patients: { name: string } | null;
+};
+
+const DEFAULT_RETENTION_DAYS = 30;
+
+export const trashRetentionDays =
+  Number.parseInt(process.env.TRASH_RETENTION_DAYS ?? "", 10) || DEFAULT_RETENTION_DAYS;
+
+function retentionCutoff() {
+  return new Date(Date.now() - trashRetentionDays * 24 * 60 * 60 * 1000).toISOString();
+}
+
+export function isTrashKind(value: unknown): value is TrashKind {
+  return value === "patients" || value === "visits";
+}
+
+export async function listTrash(supabase: SupabaseClient) {
+  const { data: patientRows, error: patientError } = await supabase
+    .from("patients")
+    .select(`${patientSelectFields}, deleted_at`)
+    .not("deleted_at", "is", null)
+    .order("deleted_at", { ascending: false });
+  if (patientError) {
+    throw patientError;
+  }
+
+  const { data: visitRows, error: visitError } = await supabase
+    .from("visits")
+    .select(`${visitSelectFields}, deleted_at, patient_id, patients(name)`)
+    .not("deleted_at", "is", null)
+    .order("deleted_at", { ascending: false });
+  if (visitError) {
+    throw visitError;
+  }
+
+  const patients: TrashedPatient[] = ((patientRows ?? []) as TrashedPatientRow[]).map((row) => ({
+    patient: mapPatientRow(row),
+    deletedAt: row.deleted_at
+  }));
+  const visits: TrashedVisit[] = ((visitRows ?? []) as unknown as TrashedVisitRow[]).map((row) => ({
+    visit: mapVisitRows([row])[0],
+    patientId: row.patient_id,
+    patientName: row.patients?.name ?? "",
+    deletedAt: row.deleted_at
+  }));
+  return { patients, visits };
+}
+
+// Physicians can undo a delete from the toast for this long; restoring anything older needs an
+// administrator. supabase/schema.sql enforces the same window in guard_soft_delete.
+export const undoWindowSeconds = 60;
+
+export type RestoreResult = "restored" | "not-found" | "patient-trashed" | "undo-expired";
+
+export async function restoreRecord(
+  supabase: SupabaseClient,
+  kind: TrashKind,
+  id: string,
+  undoOnly: boolean
+): Promise<RestoreResult> {
+  const { data: record, error: recordError } = await supabase
+    .from(kind)
+    .select(kind === "visits" ? "deleted_at, patients(deleted_at)" : "deleted_at")
+    .eq("id", id)
+    .not("deleted_at", "is", null)
+    .maybeSingle();
+  if (recordError) {
+    throw recordError;
+  }
+  if (!record) {
+    return "not-found";
+  }
+  const { deleted_at: deletedAt, patients } = record as unknown as {
+    deleted_at: string;
+    patients?: { deleted_at: string | null } | null;
+  };
+  if (undoOnly && Date.now() - new Date(deletedAt).getTime() > undoWindowSeconds * 1000) {
+    return "undo-expired";
+  }
+  // A restored visit would stay hidden behind its deleted patient.
+  if (patients?.deleted_at) {
+    return "patient-trashed";
+  }
+
+  const { data, error } = await supabase
+    .from(kind)
+    .update({ deleted_at: null })
+    .eq("id", id)
+    .not("deleted_at", "is", null)
+    .select("id");
+  if (error) {
+    throw error;
+  }
+  return (data ?? []).length > 0 ? "restored" : "not-found";
+}
+
+export async function purgeRecord(supabase: SupabaseClient, kind: TrashKind, id: string) {
+  const { data, error } = await supabase
+    .from(kind)
+    .delete()
+    .eq("id", id)
+    .lt("deleted_at", retentionCutoff())
+    .select("id");
+  if (error) {
+    throw error;
+  }
+  return (data ?? []).length > 0;
+}
+
+export async function purgeExpired(supabase: SupabaseClient) {
+  const cutoff = retentionCutoff();
+  let purged = 0;
+  for (const kind of ["visits", "patients"] as TrashKind[]) {
+    const { data, error } = await supabase
+      .from(kind)
+      .delete()
+      .lt("deleted_at", cutoff)
+      .select("id");
+    if (error) {
+      throw error;
+    }
+    purged += (data ?? []).length;
+  }
+  return purged;
+}
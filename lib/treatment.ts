@@ -0,0 +1,80 @@
+export type TreatmentDrug = "growth-hormone" | "gnrh-agonist";
+
+export type DoseUnit = "mg" | "IU" | "mcg";
+
+export type TreatmentFrequency =
+  | "daily"
+  | "six-per-week"
+  | "weekly"
+  | "every-4-weeks"
+  | "every-12-weeks";
+
+export type Treatment = {
+  id: string;
+  drug: TreatmentDrug;
+  dose: number;
+  unit: DoseUnit;
+  frequency: TreatmentFrequency;
+  startedOn: string;
+  stoppedOn: string | null;
+  lotNumber: string | null;
+};
+
+export const treatmentDrugLabels: Record<TreatmentDrug, string> = {
+  "growth-hormone": "성장호르몬",
+  "gnrh-agonist": "GnRH 작용제"
+};
+
+export const treatmentDrugShortLabels: Record<TreatmentDrug, string> = {
+  "growth-hormone": "GH",
+  "gnrh-agonist": "GnRHa"
+};
+
+export const doseUnitLabels: Record<DoseUnit, string> = {
+  mg: "mg",
+  IU: "IU",
+  mcg: "mcg"
+};
+
+export const treatmentFrequencyLabels: Record<TreatmentFrequency, string> = {
+  daily: "매일",
+  "six-per-week": "주 6회",
+  weekly: "주 1회",
+  "every-4-weeks": "4주마다",
+  "every-12-weeks": "12주마다"
+};
+
+export const defaultTreatmentSettings: Record<
+  TreatmentDrug,
+  { unit: DoseUnit; frequency: TreatmentFrequency }
+> = {
+  "growth-hormone": { unit: "mg", frequency: "six-per-week" },
+  "gnrh-agonist": { unit: "mg", frequency: "every-4-weeks" }
+};
+
+export function isTreatmentActive(treatment: Treatment, date: string) {
+  return treatment.startedOn <= date && (treatment.stoppedOn === null || treatment.stoppedOn >= date);
+}
+
+export function treatmentInjectionFlags(drug: TreatmentDrug | null) {
+  return {
+    growthInjection: drug === "growth-hormone",
+    suppressionInjection: drug === "gnrh-agonist"
+  };
+}
+
+export function formatTreatmentDose(treatment: Treatment) {
+  return `${treatment.dose} ${doseUnitLabels[treatment.unit]} ${
+    treatmentFrequencyLabels[treatment.frequency]
+  }`;
+}
+
+export function formatTreatment(treatment: Treatment) {
+  return `${treatmentDrugLabels[treatment.drug]} ${formatTreatmentDose(treatment)}`;
+}
+
+export function formatTreatmentPeriod(treatment: Treatment) {
+  const start = treatment.startedOn.replace(/-/g, ".");
+  const stop = treatment.stoppedOn ? treatment.stoppedOn.replace(/-/g, ".") : "투여 중";
+  return `${start} ~ ${stop}`;
+}
@@ -0,0 +1,450 @@
+import { AlertThresholds, alertThresholdFields } from "./alerts";
+import { BoneAgeMethod, boneAgeMethodLabels } from "./boneAge";
+import { getTodayInputValue, parseDateInput, toVisitTimestamp } from "./format";
+import { computeBmi, GrowthReference, isGrowthReference } from "./growth";
+import { isStaffRole, StaffRole } from "./permissions";
+import { MAX_TESTICULAR_VOLUME_ML, TANNER_STAGES } from "./puberty";
+import {
+  DoseUnit,
+  doseUnitLabels,
+  TreatmentDrug,
+  treatmentDrugLabels,
+  TreatmentFrequency,
+  treatmentFrequencyLabels
+} from "./treatment";
+import {
+  getAgeInfo,
+  getSexKey,
+  normalizeResidentId,
+  parseResidentId,
+  toBirthDateValue
+} from "./residentId";
+
+export type ValidationResult<T> = { value: T; error?: undefined } | { value?: undefined; error: string };
+
+export type ResidentIdentity = {
+  digits: string;
+  birthDate: string;
+  sex: string;
+};
+
+export type PatientPayload = {
+  name: string;
+  residentId?: string;
+  chartNo: string | null;
+  fatherHeight: number | null;
+  motherHeight: number | null;
+  gestationalAgeDays: number | null;
+  growthReference?: GrowthReference;
+};
+
+export type PatientInput = {
+  name: string;
+  resident: ResidentIdentity | null;
+  chartNo: string | null;
+  fatherHeight: number | null;
+  motherHeight: number | null;
+  gestationalAgeDays: number | null;
+  growthReference: GrowthReference | null;
+};
+
+export type PatientChanges = Partial<PatientInput>;
+
+export type VisitInput = {
+  visitDate: string;
+  height: number;
+  weight: number;
+  headCircumference: number | null;
+  growthInjection: boolean;
+  suppressionInjection: boolean;
+  treatmentId: string | null;
+  tannerBreastGenital: number | null;
+  tannerPubicHair: number | null;
+  testicularVolume: number | null;
+};
+
+export type VisitRecord = {
+  visitTimestamp: string;
+  height: number;
+  weight: number;
+  headCircumference: number | null;
+  bmi: number;
+  ageMonths: number;
+  growthInjection: boolean;
+  suppressionInjection: boolean;
+  treatmentId: string | null;
+  tannerBreastGenital: number | null;
+  tannerPubicHair: number | null;
+  testicularVolume: number | null;
+};
+
+export type BoneAgeInput = {
+  measuredOn: string;
+  boneAgeMonths: number;
+  method: BoneAgeMethod;
+};
+
+export type TreatmentInput = {
+  drug: TreatmentDrug;
+  dose: number;
+  unit: DoseUnit;
+  frequency: TreatmentFrequency;
+  startedOn: string;
+  stoppedOn: string | null;
+  lotNumber: string | null;
+};
+
+export type ImportRow = {
+  line: number;
+  patient: PatientInput;
+  resident: ResidentIdentity;
+  visitDate: string;
+  record: VisitRecord;
+};
+
+export type ReportInput = {
+  comment: string;
+};
+
+export type StaffInviteInput = {
+  email: string;
+  name: string;
+  role: StaffRole;
+};
+
+export const MIN_GESTATIONAL_AGE_DAYS = 154;
+export const MAX_GESTATIONAL_AGE_DAYS = 322;
+export const MAX_IMPORT_ROWS = 2000;
+export const MAX_REPORT_COMMENT_LENGTH = 1000;
+
+const MAX_IMPORT_AGE_MONTHS = 240;
+
+const patientBodyFields: [string, keyof PatientInput][] = [
+  ["name", "name"],
+  ["residentId", "resident"],
+  ["chartNo", "chartNo"],
+  ["fatherHeight", "fatherHeight"],
+  ["motherHeight", "motherHeight"],
+  ["gestationalAgeDays", "gestationalAgeDays"],
+  ["growthReference", "growthReference"]
+];
+
+const plausibleRanges: { key: "height" | "weight" | "bmi"; label: string; min: number; max: number }[] = [
+  { key: "height", label: "키", min: 30, max: 220 },
+  { key: "weight", label: "몸무게", min: 0.5, max: 200 },
+  { key: "bmi", label: "BMI", min: 8, max: 60 }
+];
+
+function asRecord(value: unknown): Record<string, unknown> {
+  return value && typeof value === "object" ? (value as Record<string, unknown>) : {};
+}
+
+function readString(value: unknown) {
+  return typeof value === "string" ? value.trim() : "";
+}
+
+function readNumber(value: unknown) {
+  if (typeof value === "number") {
+    return value;
+  }
+  if (typeof value === "string" && value.trim()) {
+    return Number(value);
+  }
+  return Number.NaN;
+}
+
+function readOptionalNumber(value: unknown) {
+  if (value === null || value === undefined || value === "") {
+    return null;
+  }
+  return readNumber(value);
+}
+
+function toResidentIdentity(digits: string): ResidentIdentity | null {
+  const parsed = parseResidentId(digits);
+  const sex = getSexKey(digits);
+  if (!parsed || !sex) {
+    return null;
+  }
+  return { digits, birthDate: toBirthDateValue(parsed.birth), sex };
+}
+
+export function validatePatientInput(
+  body: unknown,
+  { requireResidentId, requireName = true }: { requireResidentId: boolean; requireName?: boolean }
+): ValidationResult<PatientInput> {
+  const input = asRecord(body);
+  const name = readString(input.name);
+  const residentId = normalizeResidentId(readString(input.residentId));
+  const chartNo = readString(input.chartNo) || null;
+  const fatherHeight = readOptionalNumber(input.fatherHeight);
+  const motherHeight = readOptionalNumber(input.motherHeight);
+  const gestationalAgeDays = readOptionalNumber(input.gestationalAgeDays);
+  const growthReference = readString(input.growthReference) || null;
+
+  if ((requireName && !name) || (requireResidentId && !residentId)) {
+    return { error: "모든 필수 항목을 입력해주세요." };
+  }
+  const resident = residentId ? toResidentIdentity(residentId) : null;
+  if (residentId && !resident) {
+    return { error: "주민등록번호를 정확히 입력해주세요." };
+  }
+  if (
+    (fatherHeight !== null && !(fatherHeight > 0)) ||
+    (motherHeight !== null && !(motherHeight > 0))
+  ) {
+    return { error: "부모 키를 확인해주세요." };
+  }
+  if (
+    gestationalAgeDays !== null &&
+    (!Number.isInteger(gestationalAgeDays) ||
+      gestationalAgeDays < MIN_GESTATIONAL_AGE_DAYS ||
+      gestationalAgeDays > MAX_GESTATIONAL_AGE_DAYS)
+  ) {
+    return { error: "재태주수를 확인해주세요. (22주–46주)" };
+  }
+  if (growthReference !== null && !isGrowthReference(growthReference)) {
+    return { error: "성장 기준을 확인해주세요." };
+  }
+
+  return {
+    value: {
+      name,
+      resident,
+      chartNo,
+      fatherHeight,
+      motherHeight,
+      gestationalAgeDays,
+      growthReference
+    }
+  };
+}
+
+// Only the fields present in the body change; omitted fields keep their stored values.
+export function validatePatientChanges(body: unknown): ValidationResult<PatientChanges> {
+  const input = asRecord(body);
+  const patient = validatePatientInput(input, {
+    requireResidentId: false,
+    requireName: "name" in input
+  });
+  if (patient.error !== undefined) {
+    return patient;
+  }
+  const changes = patientBodyFields
+    .filter(([bodyField]) => bodyField in input)
+    .map(([, field]) => [field, patient.value[field]]);
+  return { value: Object.fromEntries(changes) as PatientChanges };
+}
+
+export function validateVisitInput(body: unknown, birthDate: string): ValidationResult<VisitRecord> {
+  const input = asRecord(body);
+  const visitDate = readString(input.visitDate);
+  const height = readNumber(input.height);
+  const weight = readNumber(input.weight);
+  const headCircumference = readOptionalNumber(input.headCircumference);
+
+  if (!visitDate || !(height > 0) || !(weight > 0)) {
+    return { error: "모든 필수 항목을 입력해주세요." };
+  }
+  if (headCircumference !== null && !(headCircumference > 0)) {
+    return { error: "머리둘레를 확인해주세요." };
+  }
+
+  const tannerBreastGenital = readOptionalNumber(input.tannerBreastGenital);
+  const tannerPubicHair = readOptionalNumber(input.tannerPubicHair);
+  const testicularVolume = readOptionalNumber(input.testicularVolume);
+  if (
+    [tannerBreastGenital, tannerPubicHair].some(
+      (stage) => stage !== null && !TANNER_STAGES.includes(stage)
+    )
+  ) {
+    return { error: "태너 단계를 확인해주세요. (1–5)" };
+  }
+  if (
+    testicularVolume !== null &&
+    !(testicularVolume > 0 && testicularVolume <= MAX_TESTICULAR_VOLUME_ML)
+  ) {
+    return { error: `고환 용적을 확인해주세요. (1–${MAX_TESTICULAR_VOLUME_ML} mL)` };
+  }
+
+  const visitParsed = parseDateInput(visitDate);
+  const visitTimestamp = toVisitTimestamp(visitDate);
+  if (!visitParsed || !visitTimestamp) {
+    return { error: "검사일을 확인해주세요." };
+  }
+
+  const ageInfo = getAgeInfo(birthDate, visitParsed);
+  if (!ageInfo) {
+    return { error: "검사일이 생년월일보다 빠릅니다." };
+  }
+
+  return {
+    value: {
+      visitTimestamp,
+      height,
+      weight,
+      headCircumference,
+      bmi: computeBmi(weight, height),
+      ageMonths: ageInfo.ageMonths,
+      growthInjection: input.growthInjection === true,
+      suppressionInjection: input.suppressionInjection === true,
+      treatmentId: readString(input.treatmentId) || null,
+      tannerBreastGenital,
+      tannerPubicHair,
+      testicularVolume
+    }
+  };
+}
+
+export function validateBoneAgeInput(body: unknown): ValidationResult<BoneAgeInput> {
+  const input = asRecord(body);
+  const measuredOn = readString(input.measuredOn);
+  const boneAgeMonths = readNumber(input.boneAgeMonths);
+  const method = readString(input.method);
+
+  if (!parseDateInput(measuredOn) || !Number.isInteger(boneAgeMonths) || boneAgeMonths < 0) {
+    return { error: "골연령 촬영일과 나이를 확인해주세요." };
+  }
+  if (!Object.prototype.hasOwnProperty.call(boneAgeMethodLabels, method)) {
+    return { error: "판독 방법을 확인해주세요." };
+  }
+
+  return { value: { measuredOn, boneAgeMonths, method: method as BoneAgeMethod } };
+}
+
+export function validateTreatmentInput(body: unknown): ValidationResult<TreatmentInput> {
+  const input = asRecord(body);
+  const drug = readString(input.drug);
+  const dose = readNumber(input.dose);
+  const unit = readString(input.unit);
+  const frequency = readString(input.frequency);
+  const startedOn = readString(input.startedOn);
+  const stoppedOn = readString(input.stoppedOn) || null;
+  const lotNumber = readString(input.lotNumber) || null;
+
+  if (!Object.prototype.hasOwnProperty.call(treatmentDrugLabels, drug)) {
+    return { error: "약제를 확인해주세요." };
+  }
+  if (!(dose > 0)) {
+    return { error: "용량을 확인해주세요." };
+  }
+  if (!Object.prototype.hasOwnProperty.call(doseUnitLabels, unit)) {
+    return { error: "용량 단위를 확인해주세요." };
+  }
+  if (!Object.prototype.hasOwnProperty.call(treatmentFrequencyLabels, frequency)) {
+    return { error: "투여 간격을 확인해주세요." };
+  }
+  if (!parseDateInput(startedOn)) {
+    return { error: "투여 시작일을 확인해주세요." };
+  }
+  if (stoppedOn !== null && (!parseDateInput(stoppedOn) || stoppedOn < startedOn)) {
+    return { error: "투여 종료일은 시작일 이후여야 합니다." };
+  }
+
+  return {
+    value: {
+      drug: drug as TreatmentDrug,
+      dose,
+      unit: unit as DoseUnit,
+      frequency: frequency as TreatmentFrequency,
+      startedOn,
+      stoppedOn,
+      lotNumber
+    }
+  };
+}
+
+export function validateImportRow(body: unknown): ValidationResult<ImportRow> {
+  const input = asRecord(body);
+  const line = readNumber(input.line);
+  const patient = validatePatientInput(input, { requireResidentId: true });
+  if (patient.error !== undefined) {
+    return patient;
+  }
+  const resident = patient.value.resident;
+  if (!resident) {
+    return { error: "주민등록번호를 정확히 입력해주세요." };
+  }
+
+  const record = validateVisitInput(input, resident.birthDate);
+  if (record.error !== undefined) {
+    return record;
+  }
+
+  const visitDate = readString(input.visitDate);
+  const visitParsed = parseDateInput(visitDate);
+  const today = parseDateInput(getTodayInputValue());
+  if (visitParsed && today && visitParsed > today) {
+    return { error: "검사일이 오늘 이후입니다." };
+  }
+  if (record.value.ageMonths > MAX_IMPORT_AGE_MONTHS) {
+    return { error: "만 20세 이후의 측정값입니다." };
+  }
+  for (const range of plausibleRanges) {
+    const value = record.value[range.key];
+    if (value < range.min || value > range.max) {
+      return { error: `${range.label} 값이 범위를 벗어났습니다. (${range.min}–${range.max})` };
+    }
+  }
+  if (
+    record.value.headCircumference !== null &&
+    (record.value.headCircumference < 25 || record.value.headCircumference > 65)
+  ) {
+    return { error: "머리둘레 값이 범위를 벗어났습니다. (25–65)" };
+  }
+
+  return {
+    value: {
+      line: Number.isInteger(line) ? line : 0,
+      patient: patient.value,
+      resident,
+      visitDate,
+      record: {
+        ...record.value,
+        growthInjection: false,
+        suppressionInjection: false,
+        treatmentId: null
+      }
+    }
+  };
+}
+
+export function validateReportInput(body: unknown): ValidationResult<ReportInput> {
+  const input = asRecord(body);
+  if (input.comment !== undefined && typeof input.comment !== "string") {
+    return { error: "소견을 확인해주세요." };
+  }
+  const comment = readString(input.comment);
+  if (comment.length > MAX_REPORT_COMMENT_LENGTH) {
+    return { error: `소견은 ${MAX_REPORT_COMMENT_LENGTH}자 이내로 입력해주세요.` };
+  }
+  return { value: { comment } };
+}
+
+export function validateStaffInvite(body: unknown): ValidationResult<StaffInviteInput> {
+  const input = asRecord(body);
+  const email = readString(input.email).toLowerCase();
+  const name = readString(input.name);
+
+  if (!/^[^\s@]+@[^\s@]+$/.test(email) || !name) {
+    return { error: "이메일과 이름을 확인해주세요." };
+  }
+  if (!isStaffRole(input.role)) {
+    return { error: "역할을 확인해주세요." };
+  }
+
+  return { value: { email, name, role: input.role } };
+}
+
+export function validateAlertThresholds(body: unknown): ValidationResult<AlertThresholds> {
+  const input = asRecord(body);
+  const thresholds = {} as AlertThresholds;
+  for (const field of alertThresholdFields) {
+    const value = readNumber(input[field.key]);
+    if (!(value >= field.min && value <= field.max)) {
+      return { error: `${field.label} 값을 확인해주세요. (${field.min}–${field.max})` };
+    }
+    thresholds[field.key] = value;
+  }
+  return { value: thresholds };
+}
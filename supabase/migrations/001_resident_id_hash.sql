@@ -0,0 +1,34 @@
+alter table patients add column if not exists birth_date date;
+alter table patients add column if not exists sex text;
+alter table patients add column if not exists resident_hash text;
+
+with settings as (
+  select '<RESIDENT_ID_HASH_KEY>'::text as hash_key
+),
+source as (
+  select id, regexp_replace(resident_id, '\D', '', 'g') as digits
+  from patients
+  where resident_hash is null
+)
+update patients
+set
+  birth_date = make_date(
+    (case when substr(source.digits, 7, 1) in ('3', '4', '7', '8') then 2000 else 1900 end)
+      + substr(source.digits, 1, 2)::integer,
+    substr(source.digits, 3, 2)::integer,
+    substr(source.digits, 5, 2)::integer
+  ),
+  sex = case when substr(source.digits, 7, 1) in ('1', '3', '5', '7') then '1' else '2' end,
+  resident_hash = encode(hmac(source.digits, settings.hash_key, 'sha256'), 'hex')
+from source, settings
+where patients.id = source.id;
+
+alter table patients alter column birth_date set not null;
+alter table patients alter column sex set not null;
+alter table patients alter column resident_hash set not null;
+alter table patients drop constraint if exists patients_sex_check;
+alter table patients add constraint patients_sex_check check (sex in ('1', '2'));
+create unique index if not exists patients_resident_hash_key on patients (resident_hash);
+create index if not exists patients_birth_date_idx on patients (birth_date);
+
+alter table patients drop column if exists resident_id;
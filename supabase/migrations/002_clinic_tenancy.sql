@@ -0,0 +1,34 @@
+with settings as (
+  select '<DEFAULT_CLINIC_NAME>'::text as clinic_name
+)
+insert into clinics (name)
+select settings.clinic_name
+from settings
+where not exists (select 1 from clinics);
+
+update patients
+set clinic_id = (select id from clinics order by created_at limit 1)
+where clinic_id is null;
+
+update visits
+set clinic_id = patients.clinic_id
+from patients
+where visits.patient_id = patients.id and visits.clinic_id is null;
+
+update bone_ages
+set clinic_id = patients.clinic_id
+from patients
+where bone_ages.patient_id = patients.id and bone_ages.clinic_id is null;
+
+alter table patients alter column clinic_id set not null;
+alter table visits alter column clinic_id set not null;
+alter table bone_ages alter column clinic_id set not null;
+alter table patients alter column clinic_id set default current_clinic_id();
+alter table visits alter column clinic_id set default current_clinic_id();
+alter table bone_ages alter column clinic_id set default current_clinic_id();
+
+alter table patients drop constraint if exists patients_chart_no_key;
+alter table patients drop constraint if exists patients_resident_hash_key;
+drop index if exists patients_resident_hash_key;
+create unique index if not exists patients_clinic_id_resident_hash_key on patients (clinic_id, resident_hash);
+create unique index if not exists patients_clinic_id_chart_no_key on patients (clinic_id, chart_no);
@@ -0,0 +1,50 @@
+alter table visits alter column age_months type numeric;
+
+-- Recompute ages as completed months plus the elapsed fraction of the current month, matching
+-- getAgeMonths. Visit timestamps are stored at local noon, so the Korean date is the visit date.
+alter table visits disable trigger visits_audit;
+
+with source as (
+  select
+    visits.id,
+    patients.birth_date,
+    (visits.created_at at time zone 'Asia/Seoul')::date as visit_date
+  from visits
+  join patients on patients.id = visits.patient_id
+),
+elapsed as (
+  select
+    id,
+    birth_date,
+    visit_date,
+    (extract(year from age(visit_date, birth_date)) * 12
+      + extract(month from age(visit_date, birth_date)))::integer as months
+  from source
+),
+completed as (
+  select
+    id,
+    birth_date,
+    visit_date,
+    case
+      when (birth_date + (months + 1) * interval '1 month')::date <= visit_date then months + 1
+      else months
+    end as months
+  from elapsed
+),
+bounds as (
+  select
+    id,
+    visit_date,
+    months,
+    (birth_date + months * interval '1 month')::date as month_start,
+    (birth_date + (months + 1) * interval '1 month')::date as month_end
+  from completed
+)
+update visits
+set age_months = bounds.months
+  + (bounds.visit_date - bounds.month_start)::numeric / (bounds.month_end - bounds.month_start)
+from bounds
+where visits.id = bounds.id;
+
+alter table visits enable trigger visits_audit;
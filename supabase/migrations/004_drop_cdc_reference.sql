@@ -0,0 +1,7 @@
+-- CDC 2000 is no longer offered. No CDC tables were ever bundled, so patients still set to it move
+-- to the default Korean reference.
+update patients set growth_reference = 'korea-2017' where growth_reference = 'cdc-2000';
+
+alter table patients drop constraint if exists patients_growth_reference_check;
+alter table patients add constraint patients_growth_reference_check
+  check (growth_reference in ('korea-2017', 'who-2006'));
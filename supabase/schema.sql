@@ -1,23 +1,457 @@
 create extension if not exists pgcrypto;
 
+create table if not exists clinics (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  created_at timestamptz not null default now()
+);
+
+create table if not exists staff (
+  user_id uuid primary key references auth.users(id) on delete cascade,
+  clinic_id uuid not null references clinics(id) on delete cascade,
+  name text not null,
+  role text not null default 'nurse' check (role in ('nurse', 'physician', 'admin')),
+  created_at timestamptz not null default now()
+);
+
+create or replace function current_clinic_id()
+returns uuid
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select clinic_id from staff where user_id = auth.uid()
+$$;
+
+create or replace function current_staff_role()
+returns text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select role from staff where user_id = auth.uid()
+$$;
+
 create table if not exists patients (
   id uuid primary key default gen_random_uuid(),
+  clinic_id uuid not null default current_clinic_id() references clinics(id) on delete cascade,
   name text not null,
-  resident_id text not null unique,
-  chart_no text unique,
+  birth_date date not null,
+  sex text not null check (sex in ('1', '2')),
+  resident_hash text not null,
+  chart_no text,
+  father_height_cm numeric,
+  mother_height_cm numeric,
+  gestational_age_days integer check (gestational_age_days between 154 and 322),
+  growth_reference text not null default 'korea-2017'
+    check (growth_reference in ('korea-2017', 'who-2006')),
+  created_at timestamptz not null default now(),
+  deleted_at timestamptz,
+  unique (clinic_id, resident_hash),
+  unique (clinic_id, chart_no)
+);
+
+create table if not exists treatments (
+  id uuid primary key default gen_random_uuid(),
+  clinic_id uuid not null default current_clinic_id() references clinics(id) on delete cascade,
+  patient_id uuid not null references patients(id) on delete cascade,
+  drug text not null check (drug in ('growth-hormone', 'gnrh-agonist')),
+  dose numeric not null check (dose > 0),
+  dose_unit text not null check (dose_unit in ('mg', 'IU', 'mcg')),
+  frequency text not null
+    check (frequency in ('daily', 'six-per-week', 'weekly', 'every-4-weeks', 'every-12-weeks')),
+  started_on date not null,
+  stopped_on date check (stopped_on >= started_on),
+  lot_number text,
   created_at timestamptz not null default now()
 );
 
 create table if not exists visits (
   id uuid primary key default gen_random_uuid(),
+  clinic_id uuid not null default current_clinic_id() references clinics(id) on delete cascade,
   patient_id uuid not null references patients(id) on delete cascade,
   height_cm numeric not null,
   weight_kg numeric not null,
+  head_circumference_cm numeric,
   bmi numeric not null,
-  age_months integer not null,
+  age_months numeric not null,
   growth_injection boolean not null default false,
   suppression_injection boolean not null default false,
+  treatment_id uuid references treatments(id) on delete set null,
+  tanner_breast_genital smallint check (tanner_breast_genital between 1 and 5),
+  tanner_pubic_hair smallint check (tanner_pubic_hair between 1 and 5),
+  testicular_volume_ml numeric check (testicular_volume_ml > 0),
+  alerts jsonb,
+  created_at timestamptz not null default now(),
+  deleted_at timestamptz
+);
+
+create table if not exists bone_ages (
+  id uuid primary key default gen_random_uuid(),
+  clinic_id uuid not null default current_clinic_id() references clinics(id) on delete cascade,
+  patient_id uuid not null references patients(id) on delete cascade,
+  measured_on date not null,
+  bone_age_months integer not null check (bone_age_months >= 0),
+  method text not null default 'greulich-pyle' check (method in ('greulich-pyle', 'tw3', 'other')),
   created_at timestamptz not null default now()
 );
 
+create table if not exists alert_settings (
+  clinic_id uuid primary key references clinics(id) on delete cascade,
+  thresholds jsonb not null,
+  updated_at timestamptz not null default now()
+);
+
+create table if not exists audit_log (
+  id bigint generated always as identity primary key,
+  clinic_id uuid not null references clinics(id) on delete cascade,
+  patient_id uuid not null,
+  table_name text not null check (table_name in ('patients', 'visits')),
+  record_id uuid not null,
+  action text not null check (action in ('insert', 'update', 'delete', 'restore', 'purge')),
+  changed_by uuid,
+  changed_by_name text,
+  before jsonb,
+  after jsonb,
+  changed_at timestamptz not null default now()
+);
+
+create or replace function record_audit()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  old_data jsonb := case when tg_op in ('UPDATE', 'DELETE') then to_jsonb(old) - 'resident_hash' end;
+  new_data jsonb := case when tg_op in ('INSERT', 'UPDATE') then to_jsonb(new) - 'resident_hash' end;
+  source jsonb := coalesce(new_data, old_data);
+  audit_action text := case tg_op when 'INSERT' then 'insert' when 'DELETE' then 'purge' else 'update' end;
+begin
+  -- Stored alerts are recomputed whenever an earlier visit changes; that is not a record edit.
+  if tg_op = 'UPDATE' and old_data - 'alerts' = new_data - 'alerts' then
+    return new;
+  end if;
+  if tg_op = 'UPDATE' and old_data->'deleted_at' = 'null' and new_data->'deleted_at' <> 'null' then
+    audit_action := 'delete';
+  elsif tg_op = 'UPDATE' and old_data->'deleted_at' <> 'null' and new_data->'deleted_at' = 'null' then
+    audit_action := 'restore';
+  end if;
+  insert into audit_log (
+    clinic_id, patient_id, table_name, record_id, action, changed_by, changed_by_name, before, after
+  ) values (
+    (source->>'clinic_id')::uuid,
+    case when tg_table_name = 'patients' then (source->>'id')::uuid else (source->>'patient_id')::uuid end,
+    tg_table_name,
+    (source->>'id')::uuid,
+    audit_action,
+    auth.uid(),
+    (select name from staff where user_id = auth.uid()),
+    old_data,
+    new_data
+  );
+  return coalesce(new, old);
+end;
+$$;
+
+create or replace function guard_growth_reference()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if new.growth_reference is distinct from old.growth_reference
+    and current_staff_role() not in ('physician', 'admin') then
+    raise exception 'only physicians and admins can change the growth reference';
+  end if;
+  return new;
+end;
+$$;
+
+-- Physicians may undo a delete within a minute, matching undoWindowSeconds in lib/trashStore.ts;
+-- older deletes are restored by an administrator from the trash.
+create or replace function guard_soft_delete()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+declare
+  staff_role text := coalesce(current_staff_role(), '');
+begin
+  if new.deleted_at is not distinct from old.deleted_at then
+    return new;
+  end if;
+  if staff_role not in ('physician', 'admin') then
+    raise exception 'only physicians and admins can delete records';
+  end if;
+  if new.deleted_at is null and staff_role <> 'admin' and old.deleted_at < now() - interval '60 seconds' then
+    raise exception 'only admins can restore records from the trash';
+  end if;
+  return new;
+end;
+$$;
+
+-- Nurses cannot edit visits, but saving or importing one refreshes the alerts of later visits.
+create or replace function guard_visit_update()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if to_jsonb(new) - 'alerts' <> to_jsonb(old) - 'alerts'
+    and current_staff_role() not in ('physician', 'admin') then
+    raise exception 'only physicians and admins can edit visits';
+  end if;
+  return new;
+end;
+$$;
+
+create or replace function import_visits(payload jsonb)
+returns integer
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  entry jsonb;
+  target_id uuid;
+  added integer;
+  inserted integer := 0;
+begin
+  for entry in select value from jsonb_array_elements(payload) loop
+    select id into target_id
+      from patients
+      where resident_hash = entry->>'resident_hash' and deleted_at is null;
+    if target_id is null then
+      insert into patients (name, birth_date, sex, resident_hash, chart_no)
+      values (
+        entry->>'name',
+        (entry->>'birth_date')::date,
+        entry->>'sex',
+        entry->>'resident_hash',
+        entry->>'chart_no'
+      )
+      returning id into target_id;
+    end if;
+
+    insert into visits (patient_id, height_cm, weight_kg, head_circumference_cm, bmi, age_months, created_at)
+    select
+      target_id,
+      (visit->>'height_cm')::numeric,
+      (visit->>'weight_kg')::numeric,
+      (visit->>'head_circumference_cm')::numeric,
+      (visit->>'bmi')::numeric,
+      (visit->>'age_months')::numeric,
+      (visit->>'created_at')::timestamptz
+    from jsonb_array_elements(entry->'visits') as visit;
+    get diagnostics added = row_count;
+    inserted := inserted + added;
+  end loop;
+  return inserted;
+end;
+$$;
+
+drop trigger if exists patients_audit on patients;
+create trigger patients_audit
+  after insert or update or delete on patients
+  for each row execute function record_audit();
+
+drop trigger if exists visits_audit on visits;
+create trigger visits_audit
+  after insert or update or delete on visits
+  for each row execute function record_audit();
+
+alter table visits add column if not exists head_circumference_cm numeric;
+alter table patients add column if not exists father_height_cm numeric;
+alter table patients add column if not exists mother_height_cm numeric;
+alter table patients add column if not exists gestational_age_days integer;
+alter table patients add column if not exists growth_reference text not null default 'korea-2017'
+  check (growth_reference in ('korea-2017', 'who-2006'));
+alter table patients add column if not exists birth_date date;
+alter table patients add column if not exists sex text;
+alter table patients add column if not exists resident_hash text;
+alter table patients add column if not exists clinic_id uuid references clinics(id) on delete cascade;
+alter table visits add column if not exists clinic_id uuid references clinics(id) on delete cascade;
+alter table bone_ages add column if not exists clinic_id uuid references clinics(id) on delete cascade;
+alter table patients add column if not exists deleted_at timestamptz;
+alter table visits add column if not exists deleted_at timestamptz;
+alter table visits add column if not exists treatment_id uuid references treatments(id) on delete set null;
+alter table visits add column if not exists tanner_breast_genital smallint
+  check (tanner_breast_genital between 1 and 5);
+alter table visits add column if not exists tanner_pubic_hair smallint
+  check (tanner_pubic_hair between 1 and 5);
+alter table visits add column if not exists testicular_volume_ml numeric
+  check (testicular_volume_ml > 0);
+alter table visits add column if not exists alerts jsonb;
+alter table audit_log drop constraint if exists audit_log_action_check;
+alter table audit_log add constraint audit_log_action_check
+  check (action in ('insert', 'update', 'delete', 'restore', 'purge'));
+alter table staff add column if not exists role text not null default 'nurse'
+  check (role in ('nurse', 'physician', 'admin'));
+
+drop trigger if exists patients_growth_reference_guard on patients;
+create trigger patients_growth_reference_guard
+  before update of growth_reference on patients
+  for each row execute function guard_growth_reference();
+
+drop trigger if exists patients_soft_delete_guard on patients;
+create trigger patients_soft_delete_guard
+  before update of deleted_at on patients
+  for each row execute function guard_soft_delete();
+
+drop trigger if exists visits_soft_delete_guard on visits;
+create trigger visits_soft_delete_guard
+  before update of deleted_at on visits
+  for each row execute function guard_soft_delete();
+
+drop trigger if exists visits_update_guard on visits;
+create trigger visits_update_guard
+  before update on visits
+  for each row execute function guard_visit_update();
+
+create index if not exists patients_birth_date_idx on patients (birth_date);
+create index if not exists patients_clinic_id_idx on patients (clinic_id);
 create index if not exists visits_patient_id_created_at_idx on visits (patient_id, created_at desc);
+create index if not exists bone_ages_patient_id_measured_on_idx on bone_ages (patient_id, measured_on desc);
+create index if not exists treatments_patient_id_started_on_idx on treatments (patient_id, started_on);
+create index if not exists patients_deleted_at_idx on patients (deleted_at) where deleted_at is not null;
+create index if not exists visits_deleted_at_idx on visits (deleted_at) where deleted_at is not null;
+create index if not exists audit_log_patient_id_changed_at_idx on audit_log (patient_id, changed_at desc);
+
+alter table clinics enable row level security;
+alter table staff enable row level security;
+alter table patients enable row level security;
+alter table visits enable row level security;
+alter table bone_ages enable row level security;
+alter table treatments enable row level security;
+alter table alert_settings enable row level security;
+alter table audit_log enable row level security;
+
+drop policy if exists clinics_own_clinic on clinics;
+create policy clinics_own_clinic on clinics
+  for select using (id = current_clinic_id());
+
+drop policy if exists alert_settings_clinic_isolation on alert_settings;
+create policy alert_settings_clinic_isolation on alert_settings
+  for select using (clinic_id = current_clinic_id());
+
+drop policy if exists alert_settings_physician_insert on alert_settings;
+create policy alert_settings_physician_insert on alert_settings
+  for insert with check (
+    clinic_id = current_clinic_id() and current_staff_role() in ('physician', 'admin')
+  );
+
+drop policy if exists alert_settings_physician_update on alert_settings;
+create policy alert_settings_physician_update on alert_settings
+  for update using (clinic_id = current_clinic_id() and current_staff_role() in ('physician', 'admin'))
+  with check (clinic_id = current_clinic_id());
+
+drop policy if exists staff_same_clinic on staff;
+create policy staff_same_clinic on staff
+  for select using (clinic_id = current_clinic_id());
+
+drop policy if exists staff_admin_update on staff;
+create policy staff_admin_update on staff
+  for update using (clinic_id = current_clinic_id() and current_staff_role() = 'admin')
+  with check (clinic_id = current_clinic_id());
+
+drop policy if exists staff_admin_delete on staff;
+create policy staff_admin_delete on staff
+  for delete using (clinic_id = current_clinic_id() and current_staff_role() = 'admin');
+
+drop policy if exists patients_clinic_isolation on patients;
+create policy patients_clinic_isolation on patients
+  for select using (clinic_id = current_clinic_id());
+
+drop policy if exists patients_insert on patients;
+create policy patients_insert on patients
+  for insert with check (
+    clinic_id = current_clinic_id()
+    and (growth_reference = 'korea-2017' or current_staff_role() in ('physician', 'admin'))
+  );
+
+drop policy if exists patients_update on patients;
+create policy patients_update on patients
+  for update using (clinic_id = current_clinic_id()) with check (clinic_id = current_clinic_id());
+
+drop policy if exists patients_admin_purge on patients;
+create policy patients_admin_purge on patients
+  for delete using (
+    clinic_id = current_clinic_id() and deleted_at is not null and current_staff_role() = 'admin'
+  );
+
+drop policy if exists visits_clinic_isolation on visits;
+create policy visits_clinic_isolation on visits
+  for select using (clinic_id = current_clinic_id());
+
+drop policy if exists visits_insert on visits;
+create policy visits_insert on visits
+  for insert with check (
+    clinic_id = current_clinic_id()
+    and exists (select 1 from patients where patients.id = patient_id and patients.clinic_id = current_clinic_id())
+    and (
+      current_staff_role() in ('physician', 'admin')
+      or (not growth_injection and not suppression_injection and treatment_id is null)
+    )
+  );
+
+drop policy if exists visits_physician_update on visits;
+create policy visits_physician_update on visits
+  for update using (clinic_id = current_clinic_id() and current_staff_role() in ('physician', 'admin'))
+  with check (
+    clinic_id = current_clinic_id()
+    and exists (select 1 from patients where patients.id = patient_id and patients.clinic_id = current_clinic_id())
+  );
+
+drop policy if exists visits_alerts_update on visits;
+create policy visits_alerts_update on visits
+  for update using (clinic_id = current_clinic_id()) with check (clinic_id = current_clinic_id());
+
+drop policy if exists visits_physician_delete on visits;
+drop policy if exists visits_admin_purge on visits;
+create policy visits_admin_purge on visits
+  for delete using (
+    clinic_id = current_clinic_id() and deleted_at is not null and current_staff_role() = 'admin'
+  );
+
+drop policy if exists bone_ages_clinic_isolation on bone_ages;
+create policy bone_ages_clinic_isolation on bone_ages
+  for select using (clinic_id = current_clinic_id());
+
+drop policy if exists bone_ages_insert on bone_ages;
+create policy bone_ages_insert on bone_ages
+  for insert with check (
+    clinic_id = current_clinic_id()
+    and exists (select 1 from patients where patients.id = patient_id and patients.clinic_id = current_clinic_id())
+  );
+
+drop policy if exists bone_ages_physician_delete on bone_ages;
+create policy bone_ages_physician_delete on bone_ages
+  for delete using (clinic_id = current_clinic_id() and current_staff_role() in ('physician', 'admin'));
+
+drop policy if exists treatments_clinic_isolation on treatments;
+create policy treatments_clinic_isolation on treatments
+  for select using (clinic_id = current_clinic_id());
+
+drop policy if exists treatments_physician_insert on treatments;
+create policy treatments_physician_insert on treatments
+  for insert with check (
+    clinic_id = current_clinic_id()
+    and current_staff_role() in ('physician', 'admin')
+    and exists (select 1 from patients where patients.id = patient_id and patients.clinic_id = current_clinic_id())
+  );
+
+drop policy if exists treatments_physician_update on treatments;
+create policy treatments_physician_update on treatments
+  for update using (clinic_id = current_clinic_id() and current_staff_role() in ('physician', 'admin'))
+  with check (clinic_id = current_clinic_id());
+
+drop policy if exists treatments_physician_delete on treatments;
+create policy treatments_physician_delete on treatments
+  for delete using (clinic_id = current_clinic_id() and current_staff_role() in ('physician', 'admin'));
+
+drop policy if exists audit_log_clinic_read on audit_log;
+create policy audit_log_clinic_read on audit_log
+  for select using (clinic_id = current_clinic_id());